@@ -1,48 +1,17 @@
-import { Tabs } from 'expo-router';
+import { Tabs, router } from 'expo-router';
 import { Calendar, Focus, Clock, Settings, BookOpen, Chrome as Home } from 'lucide-react-native';
-import { useEffect, useState } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useFocusEffect } from '@react-navigation/native';
+import { useEffect } from 'react';
+import { useFocusSession } from '@/contexts/FocusSessionContext';
 
 export default function TabLayout() {
-  const [isInFocusMode, setIsInFocusMode] = useState(false);
-
-  // Use useFocusEffect to check focus mode when tab comes into focus
-  useFocusEffect(() => {
-    const checkFocusMode = async () => {
-      try {
-        const focusMode = await AsyncStorage.getItem('isInFocusMode');
-        setIsInFocusMode(focusMode === 'true');
-      } catch (error) {
-        console.error('Error checking focus mode:', error);
-      }
-    };
-
-    checkFocusMode();
-  });
+  const { isLoaded, isInFocusMode } = useFocusSession();
 
+  // Reopening the app mid-session goes straight back to the timer
   useEffect(() => {
-    // Listen for focus mode changes with more frequent checking
-    const checkFocusMode = async () => {
-      try {
-        const focusMode = await AsyncStorage.getItem('isInFocusMode');
-        const newFocusMode = focusMode === 'true';
-        if (newFocusMode !== isInFocusMode) {
-          setIsInFocusMode(newFocusMode);
-        }
-      } catch (error) {
-        console.error('Error checking focus mode:', error);
-      }
-    };
-
-    // Check initially
-    checkFocusMode();
-
-    // Set up interval to check for changes more frequently
-    const interval = setInterval(checkFocusMode, 500); // Check every 500ms
-
-    return () => clearInterval(interval);
-  }, [isInFocusMode]);
+    if (isLoaded && isInFocusMode) {
+      router.navigate('/(tabs)/focus');
+    }
+  }, [isLoaded]);
 
   return (
     <Tabs
@@ -116,6 +85,18 @@ export default function TabLayout() {
           href: null, // This hides the tab from the tab bar
         }}
       />
+      <Tabs.Screen
+        name="plan-day"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="inbox"
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -13,33 +13,64 @@ import {
   Platform,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
-import { ArrowLeft, Target, Calendar, Clock, Tag, Plus, Trash2, Save, ChevronDown } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, Target, Calendar, Clock, Tag, Plus, Trash2, Save, ChevronDown, Repeat, LayoutTemplate, BookmarkPlus } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
-import { loadCategories, saveTimeBlocks, loadTimeBlocks, BlockCategory } from '@/utils/storage';
-import { TimeBlockData } from '@/components/TimeBlock';
+import { loadCategories, saveTimeBlocks, loadTimeBlocks, loadInboxTasks, saveInboxTasks, loadTemplates, filterBlocksByDate, BlockCategory, BlockTemplate } from '@/utils/storage';
+import { TimeBlockData, RepeatRule, RepeatEditScope } from '@/components/TimeBlock';
+import { createTasks } from '@/utils/tasks';
+import { applyBlockUpdate, isRecurringOccurrence } from '@/utils/recurrence';
+import { createTemplate, saveTemplate } from '@/utils/templates';
+import { resolveBlockConflicts } from '@/utils/conflicts';
+import { askRepeatScope, getBlockEditChanges, getTaskDrafts, resolveEditConflicts, TaskDraft } from '@/utils/blockEdit';
+import { addMinutesToTime, isOvernightBlock, getBlockDurationMinutes } from '@/utils/blockTime';
+import { getTodayDateString, formatRelativeDate, isDateString } from '@/utils/date';
 import MobileHeader from '@/components/MobileHeader';
+import RepeatPicker from '@/components/RepeatPicker';
+import DatePicker from '@/components/DatePicker';
+import TemplateEditor from '@/components/TemplateEditor';
 
 export default function CreateBlockScreen() {
   const { colors } = useTheme();
   const insets = useSafeAreaInsets();
   const screenWidth = Dimensions.get('window').width;
+
+  // Optional values to start the form with, e.g. when turning an inbox task into a block.
+  // With blockId the form edits that block (found on date) instead of creating one.
+  const params = useLocalSearchParams<{
+    title?: string;
+    date?: string;
+    time?: string;
+    duration?: string;
+    category?: string;
+    inboxTaskId?: string;
+    blockId?: string;
+  }>();
   
   const [title, setTitle] = useState('');
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]); // Today's date
+  const [selectedDate, setSelectedDate] = useState(getTodayDateString());
   const [startHour, setStartHour] = useState(9);
   const [startMinute, setStartMinute] = useState(0);
   const [startPeriod, setStartPeriod] = useState<'AM' | 'PM'>('AM');
   const [selectedDuration, setSelectedDuration] = useState(60); // in minutes
   const [selectedCategory, setSelectedCategory] = useState<BlockCategory | null>(null);
   const [customColor, setCustomColor] = useState('#FF6B35');
-  const [tasks, setTasks] = useState<string[]>(['']);
+  const [tasks, setTasks] = useState<TaskDraft[]>([{ text: '' }]);
+  const [repeatRule, setRepeatRule] = useState<RepeatRule | undefined>(undefined);
   const [categories, setCategories] = useState<BlockCategory[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<{[key: string]: string}>({});
+  const [inboxTaskId, setInboxTaskId] = useState<string | undefined>(undefined);
+  const [templates, setTemplates] = useState<BlockTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<BlockTemplate | null>(null);
+  const [editingBlock, setEditingBlock] = useState<TimeBlockData | null>(null);
+  const [allBlocks, setAllBlocks] = useState<TimeBlockData[]>([]);
+  const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
   
   // Modal dropdown states
-  const [activeDropdown, setActiveDropdown] = useState<'hour' | 'minute' | 'period' | 'duration' | 'date' | null>(null);
+  const [activeDropdown, setActiveDropdown] = useState<'hour' | 'minute' | 'period' | 'duration' | null>(null);
 
   const predefinedColors = [
     '#FF6B35', '#2E8B8B', '#8B4F9F', '#4F8B3B', 
@@ -66,49 +97,80 @@ export default function CreateBlockScreen() {
     loadCategoriesData();
   }, []);
 
-  const generateDateOptions = () => {
-    const dates = [];
-    const today = new Date();
-    
-    // Add past 3 days, today, and next 14 days
-    for (let i = -3; i <= 14; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      const dateString = date.toISOString().split('T')[0];
-      const label = formatDate(dateString);
-      dates.push({ value: dateString, label });
+  // Templates can be added or edited in settings while this screen stays mounted.
+  // Blocks are only read to mark busy days in the date picker.
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates().then(setTemplates);
+      loadTimeBlocks().then(setAllBlocks);
+    }, [])
+  );
+
+  useEffect(() => {
+    if (params.title) setTitle(params.title);
+    if (isDateString(params.date)) setSelectedDate(params.date);
+    if (params.time && /^\d{2}:\d{2}$/.test(params.time)) setStartTime(params.time);
+    if (params.duration && durationOptions.some(option => option.value === Number(params.duration))) {
+      setSelectedDuration(Number(params.duration));
     }
-    
-    return dates;
-  };
+    setInboxTaskId(params.inboxTaskId);
+  }, [params.title, params.date, params.time, params.duration, params.inboxTaskId]);
+
+  useEffect(() => {
+    const category = categories.find(c => c.name === params.category);
+    if (category) {
+      setSelectedCategory(category);
+      setCustomColor(category.color);
+    }
+  }, [params.category, categories]);
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-
-    // Reset time for comparison
-    const blockDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const tomorrowDate = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
-    const yesterdayDate = new Date(yesterday.getFullYear(), yesterday.getMonth(), yesterday.getDate());
-
-    if (blockDate.getTime() === todayDate.getTime()) {
-      return 'Today';
-    } else if (blockDate.getTime() === tomorrowDate.getTime()) {
-      return 'Tomorrow';
-    } else if (blockDate.getTime() === yesterdayDate.getTime()) {
-      return 'Yesterday';
+  useEffect(() => {
+    if (params.blockId && isDateString(params.date)) {
+      loadBlockToEdit(params.blockId, params.date);
     } else {
-      return date.toLocaleDateString('en-US', { 
-        weekday: 'short', 
-        month: 'short', 
-        day: 'numeric' 
-      });
+      setEditingBlock(null);
     }
+  }, [params.blockId, params.date]);
+
+  // Fill the category once both the block and the categories are loaded
+  useEffect(() => {
+    if (!editingBlock) return;
+    const category = categories.find(c => c.name === editingBlock.category);
+    if (category) setSelectedCategory(category);
+  }, [editingBlock, categories]);
+
+  // Repeating blocks are stored once, so their occurrences are found by expanding the date
+  const loadBlockToEdit = async (blockId: string, date: string) => {
+    try {
+      const block = filterBlocksByDate(await loadTimeBlocks(), date).find(b => b.id === blockId);
+      if (!block) {
+        Alert.alert('Block Not Found', 'This block may have been deleted.');
+        setEditingBlock(null);
+        return;
+      }
+
+      setEditingBlock(block);
+      setTitle(block.title);
+      setSelectedDate(block.date);
+      setStartTime(block.startTime);
+      setSelectedDuration(getBlockDurationMinutes(block));
+      setCustomColor(block.color);
+      setTasks(block.tasks.length > 0 ? getTaskDrafts(block.tasks) : [{ text: '' }]);
+      setRepeatRule(block.repeat);
+      setSelectedTemplateId(null);
+      setErrors({});
+    } catch (error) {
+      console.error('Error loading block:', error);
+      Alert.alert('Error', 'Failed to load time block. Please try again.');
+    }
+  };
+
+  // Helper function to set the start time pickers from an HH:mm time
+  const setStartTime = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    setStartHour(hour % 12 === 0 ? 12 : hour % 12);
+    setStartMinute(minute);
+    setStartPeriod(hour >= 12 ? 'PM' : 'AM');
   };
 
   const formatTimeTo24Hour = (hour: number, minute: number, period: 'AM' | 'PM') => {
@@ -122,17 +184,17 @@ export default function CreateBlockScreen() {
     return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')} ${period}`;
   };
 
+  // Blocks may run past midnight, ending on the next day
   const calculateEndTime = () => {
     const startTime24 = formatTimeTo24Hour(startHour, startMinute, startPeriod);
-    const start = new Date(`2000-01-01 ${startTime24}`);
-    const end = new Date(start.getTime() + selectedDuration * 60000);
+    const endTime24 = addMinutesToTime(startTime24, selectedDuration);
+    const [endHour, endMinute] = endTime24.split(':').map(Number);
     
-    const endHour = end.getHours();
-    const endMinute = end.getMinutes();
     const endPeriod = endHour >= 12 ? 'PM' : 'AM';
     const displayEndHour = endHour === 0 ? 12 : endHour > 12 ? endHour - 12 : endHour;
+    const nextDay = isOvernightBlock({ startTime: startTime24, endTime: endTime24 }) ? ' (next day)' : '';
     
-    return formatTime12Hour(displayEndHour, endMinute, endPeriod);
+    return `${formatTime12Hour(displayEndHour, endMinute, endPeriod)}${nextDay}`;
   };
 
   const loadCategoriesData = async () => {
@@ -148,9 +210,44 @@ export default function CreateBlockScreen() {
     }
   };
 
+  // Fill the form from a template, keeping the chosen date and start time. Every template task
+  // is kept, even past the rows the form lets you add by hand.
+  const handleApplyTemplate = (template: BlockTemplate) => {
+    setTitle(template.title);
+    setSelectedDuration(template.durationMinutes);
+    const category = categories.find(c => c.name === template.category);
+    if (category) setSelectedCategory(category);
+    setCustomColor(template.color);
+    setTasks(template.tasks.length > 0 ? template.tasks.map(text => ({ text })) : [{ text: '' }]);
+    setSelectedTemplateId(template.id);
+    setErrors({});
+  };
+
+  const handleSaveAsTemplate = () => {
+    setTemplateDraft(createTemplate({
+      name: title.trim(),
+      title: title.trim(),
+      durationMinutes: selectedDuration,
+      category: selectedCategory?.name ?? '',
+      color: customColor,
+      tasks: tasks.map(task => task.text.trim()).filter(task => task !== ''),
+    }));
+  };
+
+  const handleConfirmTemplate = async (template: BlockTemplate) => {
+    try {
+      setTemplates(await saveTemplate(template));
+      setTemplateDraft(null);
+      Alert.alert('Template Saved', `"${template.name}" is now available as a preset.`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      Alert.alert('Error', 'Failed to save template. Please try again.');
+    }
+  };
+
   const handleAddTask = () => {
     if (tasks.length < 5) {
-      setTasks([...tasks, '']);
+      setTasks([...tasks, { text: '' }]);
     }
   };
 
@@ -163,7 +260,7 @@ export default function CreateBlockScreen() {
 
   const handleTaskChange = (index: number, value: string) => {
     const newTasks = [...tasks];
-    newTasks[index] = value;
+    newTasks[index] = { ...newTasks[index], text: value };
     setTasks(newTasks);
   };
 
@@ -188,28 +285,51 @@ export default function CreateBlockScreen() {
 
   const clearForm = () => {
     setTitle('');
-    setSelectedDate(new Date().toISOString().split('T')[0]);
+    setSelectedDate(getTodayDateString());
     setStartHour(9);
     setStartMinute(0);
     setStartPeriod('AM');
     setSelectedDuration(60);
-    setTasks(['']);
+    setTasks([{ text: '' }]);
+    setRepeatRule(undefined);
     setErrors({});
+    setInboxTaskId(undefined);
+    setSelectedTemplateId(null);
+    setEditingBlock(null);
     // Keep selected category and color for convenience
+
+    // The screen stays mounted, so drop the params or opening the same link again wouldn't fill the form
+    router.setParams({
+      title: undefined,
+      date: undefined,
+      time: undefined,
+      duration: undefined,
+      category: undefined,
+      inboxTaskId: undefined,
+      blockId: undefined,
+    });
   };
 
   const handleSave = async () => {
     if (!validateForm()) return;
 
+    if (editingBlock) {
+      if (isRecurringOccurrence(editingBlock)) {
+        const scope = await askRepeatScope('Save Repeating Block');
+        if (scope) await handleSaveEdit(editingBlock, scope);
+        return;
+      }
+      await handleSaveEdit(editingBlock);
+      return;
+    }
+
     setIsLoading(true);
     try {
-      const filteredTasks = tasks.filter(task => task.trim() !== '');
+      const filteredTasks = tasks.map(task => task.text.trim()).filter(task => task !== '');
       const startTime = formatTimeTo24Hour(startHour, startMinute, startPeriod);
       
       // Calculate end time based on duration
-      const start = new Date(`2000-01-01 ${startTime}`);
-      const end = new Date(start.getTime() + selectedDuration * 60000);
-      const endTime = `${end.getHours().toString().padStart(2, '0')}:${end.getMinutes().toString().padStart(2, '0')}`;
+      const endTime = addMinutesToTime(startTime, selectedDuration);
       
       const blockData: TimeBlockData = {
         id: Date.now().toString(),
@@ -219,16 +339,26 @@ export default function CreateBlockScreen() {
         endTime,
         category: selectedCategory!.name,
         color: customColor,
-        tasks: filteredTasks,
+        tasks: createTasks(filteredTasks),
         isActive: false,
         isCompleted: false,
         progress: 0,
+        repeat: repeatRule,
       };
 
-      // Load existing blocks and add new one
+      // Load existing blocks and add new one, unless it clashes and the user backs out
       const existingBlocks = await loadTimeBlocks();
-      const updatedBlocks = [...existingBlocks, blockData];
+      const resolvedBlock = await resolveBlockConflicts(existingBlocks, blockData);
+      if (!resolvedBlock) return;
+
+      const updatedBlocks = [...existingBlocks, resolvedBlock];
       await saveTimeBlocks(updatedBlocks);
+
+      // The inbox task now lives in the block
+      if (inboxTaskId) {
+        const inboxTasks = await loadInboxTasks();
+        await saveInboxTasks(inboxTasks.filter(task => task.id !== inboxTaskId));
+      }
       
       // Clear form after successful save
       clearForm();
@@ -244,6 +374,36 @@ export default function CreateBlockScreen() {
     }
   };
 
+  const handleSaveEdit = async (block: TimeBlockData, scope?: RepeatEditScope) => {
+    setIsLoading(true);
+    try {
+      const startTime = formatTimeTo24Hour(startHour, startMinute, startPeriod);
+
+      const existingBlocks = await loadTimeBlocks();
+      const changes = await resolveEditConflicts(existingBlocks, block, getBlockEditChanges(block, {
+        title,
+        date: selectedDate,
+        startTime,
+        endTime: addMinutesToTime(startTime, selectedDuration),
+        category: selectedCategory!.name,
+        color: customColor,
+        tasks,
+        repeat: repeatRule,
+      }));
+      if (!changes) return;
+
+      await saveTimeBlocks(applyBlockUpdate(existingBlocks, block.id, changes, scope));
+
+      clearForm();
+      router.back();
+    } catch (error) {
+      console.error('Error updating time block:', error);
+      Alert.alert('Error', 'Failed to update time block. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCancel = () => {
     clearForm();
     router.back();
@@ -268,12 +428,6 @@ export default function CreateBlockScreen() {
     let title = '';
 
     switch (activeDropdown) {
-      case 'date':
-        options = generateDateOptions();
-        selectedValue = selectedDate;
-        onSelect = setSelectedDate;
-        title = 'Select Date';
-        break;
       case 'hour':
         options = hours;
         selectedValue = startHour;
@@ -596,6 +750,17 @@ export default function CreateBlockScreen() {
       borderColor: colors.primary,
       backgroundColor: colors.primary + '20',
     },
+    templatesRow: {
+      gap: 12,
+    },
+    templateChip: {
+      minWidth: 160,
+    },
+    templateMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
     categoryDot: {
       width: 12,
       height: 12,
@@ -754,8 +919,8 @@ export default function CreateBlockScreen() {
     <View style={styles.container}>
       {/* Header */}
       <MobileHeader
-        title="Create Time Block"
-        subtitle="Plan your focused work session"
+        title={editingBlock ? 'Edit Time Block' : 'Create Time Block'}
+        subtitle={editingBlock ? 'Update your focused work session' : 'Plan your focused work session'}
         leftComponent={
           <TouchableOpacity onPress={handleCancel}>
             <ArrowLeft size={24} color={colors.text} />
@@ -766,6 +931,51 @@ export default function CreateBlockScreen() {
       {/* Content */}
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
+          {/* Template Presets */}
+          {templates.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <View style={[styles.sectionIcon, { backgroundColor: colors.primary + '30' }]}>
+                  <LayoutTemplate size={18} color={colors.primary} />
+                </View>
+                <View style={styles.sectionContent}>
+                  <Text style={styles.sectionTitle}>Templates</Text>
+                  <Text style={styles.sectionDescription}>Start from a saved block</Text>
+                </View>
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.templatesRow}>
+                {templates.map((template) => (
+                  <TouchableOpacity
+                    key={template.id}
+                    style={[
+                      styles.categoryChip,
+                      styles.templateChip,
+                      selectedTemplateId === template.id && styles.categoryChipSelected,
+                    ]}
+                    onPress={() => handleApplyTemplate(template)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.categoryDot, { backgroundColor: template.color }]} />
+                    <View>
+                      <Text
+                        style={[
+                          styles.categoryText,
+                          selectedTemplateId === template.id && styles.categoryTextSelected,
+                        ]}
+                        numberOfLines={1}
+                      >
+                        {template.name}
+                      </Text>
+                      <Text style={styles.templateMeta}>
+                        {formatDuration(template.durationMinutes)} · {template.category}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           {/* 1. Title Section */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -816,13 +1026,13 @@ export default function CreateBlockScreen() {
                 <TouchableOpacity 
                   style={[
                     styles.dateDropdownButton,
-                    activeDropdown === 'date' && styles.dateDropdownButtonActive
+                    isDatePickerVisible && styles.dateDropdownButtonActive
                   ]}
-                  onPress={() => setActiveDropdown('date')}
+                  onPress={() => setIsDatePickerVisible(true)}
                   activeOpacity={0.7}
                 >
                   <Text style={styles.dateDropdownValue}>
-                    {formatDate(selectedDate)}
+                    {formatRelativeDate(selectedDate)}
                   </Text>
                   <ChevronDown size={20} color={colors.textSecondary} />
                 </TouchableOpacity>
@@ -846,7 +1056,7 @@ export default function CreateBlockScreen() {
                 <View key={index} style={styles.taskRow}>
                   <TextInput
                     style={styles.taskInput}
-                    value={task}
+                    value={task.text}
                     onChangeText={(value) => handleTaskChange(index, value)}
                     placeholder={`Task ${index + 1}...`}
                     placeholderTextColor={colors.textSecondary}
@@ -968,7 +1178,21 @@ export default function CreateBlockScreen() {
             </View>
           </View>
 
-          {/* 5. Category Section */}
+          {/* 5. Repeat Section */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <View style={[styles.sectionIcon, { backgroundColor: colors.primary + '30' }]}>
+                <Repeat size={18} color={colors.primary} />
+              </View>
+              <View style={styles.sectionContent}>
+                <Text style={styles.sectionTitle}>Repeat</Text>
+                <Text style={styles.sectionDescription}>Does this block happen regularly?</Text>
+              </View>
+            </View>
+            <RepeatPicker value={repeatRule} onChange={setRepeatRule} startDate={selectedDate} />
+          </View>
+
+          {/* 6. Category Section */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <View style={[styles.sectionIcon, { backgroundColor: colors.primary + '30' }]}>
@@ -1015,7 +1239,7 @@ export default function CreateBlockScreen() {
             {errors.category && <Text style={styles.errorText}>{errors.category}</Text>}
           </View>
 
-          {/* 6. Color Section */}
+          {/* 7. Color Section */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
               <View style={[styles.sectionIcon, { backgroundColor: colors.primary + '30' }]}>
@@ -1044,6 +1268,11 @@ export default function CreateBlockScreen() {
               ))}
             </View>
           </View>
+
+          <TouchableOpacity style={styles.addTaskRow} onPress={handleSaveAsTemplate}>
+            <BookmarkPlus size={16} color={colors.textSecondary} />
+            <Text style={styles.addTaskText}>Save as Template</Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
 
@@ -1071,7 +1300,7 @@ export default function CreateBlockScreen() {
           ) : (
             <>
               <Save size={16} color="white" />
-              <Text style={[styles.buttonText, styles.saveButtonText]}>Create Block</Text>
+              <Text style={[styles.buttonText, styles.saveButtonText]}>{editingBlock ? 'Save Changes' : 'Create Block'}</Text>
             </>
           )}
         </TouchableOpacity>
@@ -1079,6 +1308,22 @@ export default function CreateBlockScreen() {
 
       {/* Dropdown Modal */}
       {renderDropdownModal()}
+
+      <DatePicker
+        visible={isDatePickerVisible}
+        value={selectedDate}
+        blocks={allBlocks}
+        onClose={() => setIsDatePickerVisible(false)}
+        onSelect={setSelectedDate}
+      />
+
+      <TemplateEditor
+        visible={templateDraft !== null}
+        heading="Save as Template"
+        template={templateDraft}
+        onCancel={() => setTemplateDraft(null)}
+        onSave={handleConfirmTemplate}
+      />
     </View>
   );
 }
\ No newline at end of file
@@ -4,21 +4,39 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { ArrowLeft, Coffee, Zap, CircleCheck as CheckCircle, Clock, TrendingUp, Target, Plus, Pause, Play } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import FocusTimer from '@/components/FocusTimer';
 import MobileHeader from '@/components/MobileHeader';
-import { loadTimeBlocks, saveTimeBlocks, filterBlocksByDate, getTodayDateString } from '@/utils/storage';
+import CarryOverModal from '@/components/CarryOverModal';
+import { loadTimeBlocks, getBlocksOnDate, getBlocksInDateRange, loadSessions, getTotalFocusedMinutes, FocusSessionRecord } from '@/utils/storage';
 import { TimeBlockData } from '@/components/TimeBlock';
+import { getRemainingMs, isSessionPaused } from '@/utils/focusSession';
+import { getBlockDurationMinutes } from '@/utils/blockTime';
+import { CarryOverItem, CarryOverTarget, getUnfinishedItems, getLaterBlocks, saveCarryOver } from '@/utils/carryOver';
+import { getTodayDateString, addDays, formatRelativeDate } from '@/utils/date';
+import { showChoicePrompt } from '@/utils/choicePrompt';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFocusSession } from '@/contexts/FocusSessionContext';
 
 export default function FocusScreen() {
-  const [activeBlock, setActiveBlock] = useState<TimeBlockData | null>(null);
-  const [isInFocusMode, setIsInFocusMode] = useState(false);
-  const [allBlocks, setAllBlocks] = useState<TimeBlockData[]>([]);
   const [todayBlocks, setTodayBlocks] = useState<TimeBlockData[]>([]);
   const [upcomingBlocks, setUpcomingBlocks] = useState<TimeBlockData[]>([]);
   const [completedBlocks, setCompletedBlocks] = useState<TimeBlockData[]>([]);
+  const [todaySessions, setTodaySessions] = useState<FocusSessionRecord[]>([]);
+  const [carryOver, setCarryOver] = useState<{ title: string; items: CarryOverItem[]; laterBlocks: TimeBlockData[] } | null>(null);
   const { colors } = useTheme();
+  const {
+    isInFocusMode,
+    activeBlock,
+    session: focusSession,
+    startFocus,
+    resumeFocus,
+    exitFocusMode,
+    updateSession,
+    toggleTask,
+    completeFocus,
+    endFocus,
+    reloadActiveBlock,
+  } = useFocusSession();
   const insets = useSafeAreaInsets();
   const screenWidth = Dimensions.get('window').width;
 
@@ -26,8 +44,8 @@ export default function FocusScreen() {
   useFocusEffect(
     useCallback(() => {
       loadData();
-      // Also check focus mode state when screen comes into focus
-      checkFocusMode();
+      // Pick up edits made to the active block on other screens
+      reloadActiveBlock();
     }, [])
   );
 
@@ -35,55 +53,22 @@ export default function FocusScreen() {
     loadData();
   }, []);
 
-  // Check focus mode state
-  const checkFocusMode = async () => {
-    try {
-      const focusMode = await AsyncStorage.getItem('isInFocusMode');
-      setIsInFocusMode(focusMode === 'true');
-    } catch (error) {
-      console.error('Error checking focus mode:', error);
-    }
-  };
-
-  // Update focus mode state in AsyncStorage and local state
-  const updateFocusMode = async (inFocus: boolean) => {
-    try {
-      await AsyncStorage.setItem('isInFocusMode', inFocus.toString());
-      setIsInFocusMode(inFocus);
-      
-      // Force a small delay to ensure AsyncStorage is updated
-      setTimeout(() => {
-        console.log('Focus mode updated to:', inFocus);
-      }, 100);
-    } catch (error) {
-      console.error('Error updating focus mode:', error);
-    }
-  };
-
   const loadData = async () => {
     try {
-      const savedBlocks = await loadTimeBlocks();
-      setAllBlocks(savedBlocks);
+      const [savedBlocks, savedSessions] = await Promise.all([
+        loadTimeBlocks(),
+        loadSessions(),
+      ]);
       
       const today = getTodayDateString();
-      const todayFilteredBlocks = filterBlocksByDate(savedBlocks, today);
+      setTodaySessions(savedSessions.filter(session => session.date === today));
+      const todayFilteredBlocks = getBlocksOnDate(savedBlocks, today);
       setTodayBlocks(todayFilteredBlocks);
       
-      // Find current active block
-      const currentActive = savedBlocks.find(block => block.isActive);
-      if (currentActive) {
-        setActiveBlock(currentActive);
-      }
-
-      // Get upcoming blocks (not completed, not active, from today and future)
-      const upcoming = savedBlocks.filter(block => {
-        const blockDate = new Date(block.date);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        blockDate.setHours(0, 0, 0, 0);
-        
-        return !block.isCompleted && !block.isActive && blockDate >= today;
-      }).slice(0, 5);
+      // Get upcoming blocks (not completed, not active, from today and the next two weeks)
+      const upcoming = getBlocksInDateRange(savedBlocks, today, addDays(today, 14))
+        .filter(block => !block.isCompleted && !block.isActive)
+        .slice(0, 5);
       setUpcomingBlocks(upcoming);
 
       // Get completed blocks for today
@@ -101,49 +86,18 @@ export default function FocusScreen() {
     return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-
-    // Reset time for comparison
-    const blockDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const tomorrowDate = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
-    const yesterdayDate = new Date(yesterday.getFullYear(), yesterday.getMonth(), yesterday.getDate());
-
-    if (blockDate.getTime() === todayDate.getTime()) {
-      return 'Today';
-    } else if (blockDate.getTime() === tomorrowDate.getTime()) {
-      return 'Tomorrow';
-    } else if (blockDate.getTime() === yesterdayDate.getTime()) {
-      return 'Yesterday';
-    } else {
-      return date.toLocaleDateString('en-US', { 
-        weekday: 'short', 
-        month: 'short', 
-        day: 'numeric' 
-      });
-    }
+  const formatRemaining = (ms: number) => {
+    const totalMinutes = Math.ceil(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
   };
 
+  const formatDate = (dateString: string) => formatRelativeDate(dateString);
+
   const handleStartFocus = async (block: TimeBlockData) => {
     try {
-      // Set this block as active and deactivate others
-      const updatedBlocks = allBlocks.map(b => 
-        b.id === block.id 
-          ? { ...b, isActive: true }
-          : { ...b, isActive: false }
-      );
-      
-      setAllBlocks(updatedBlocks);
-      setActiveBlock(block);
-      await updateFocusMode(true); // Hide tab bar
-      
-      await saveTimeBlocks(updatedBlocks);
+      await startFocus(block);
       
       // Reload data to update all states
       await loadData();
@@ -154,37 +108,40 @@ export default function FocusScreen() {
   };
 
   const handleResumeFocus = async () => {
-    if (activeBlock) {
-      await updateFocusMode(true); // Hide tab bar
+    try {
+      await resumeFocus();
+    } catch (error) {
+      console.error('Error resuming focus:', error);
     }
   };
 
   const handleFocusComplete = async () => {
-    if (activeBlock) {
-      try {
-        const updatedBlocks = allBlocks.map(b => 
-          b.id === activeBlock.id 
-            ? { ...b, isActive: false, isCompleted: true, progress: 100 }
-            : b
-        );
-        
-        setAllBlocks(updatedBlocks);
-        await saveTimeBlocks(updatedBlocks);
-        
-        await updateFocusMode(false); // Show tab bar
-        setActiveBlock(null);
-        
-        // Reload data to update all states
-        await loadData();
-        
-        Alert.alert(
+    try {
+      const completedBlock = await completeFocus();
+      if (!completedBlock) return;
+      
+      // Reload data to update all states
+      await loadData();
+      
+      const unfinishedItems = getUnfinishedItems([{ ...completedBlock, isActive: false, isCompleted: true }]);
+      if (unfinishedItems.length > 0) {
+        const shouldCarryOver = await showChoicePrompt(
           '🎉 Focus Session Complete!',
-          `Great job completing your "${activeBlock.title}" session!`,
-          [{ text: 'Awesome!', onPress: () => {} }]
+          `Great job completing your "${completedBlock.title}" session! ${unfinishedItems.length} task${unfinishedItems.length === 1 ? ' was' : 's were'} left unticked.`,
+          [{ label: 'Carry Over', value: true }],
+          'Leave Them'
         );
-      } catch (error) {
-        console.error('Error completing focus:', error);
+        if (shouldCarryOver) await openCarryOver(completedBlock, unfinishedItems);
+        return;
       }
+
+      Alert.alert(
+        '🎉 Focus Session Complete!',
+        `Great job completing your "${completedBlock.title}" session!`,
+        [{ text: 'Awesome!', onPress: () => {} }]
+      );
+    } catch (error) {
+      console.error('Error completing focus:', error);
     }
   };
 
@@ -197,15 +154,7 @@ export default function FocusScreen() {
           { text: 'Cancel', style: 'cancel' },
           { 
             text: 'Pause', 
-            onPress: async () => {
-              try {
-                // Keep the block as active but exit focus mode
-                await updateFocusMode(false); // Show tab bar
-                // Don't change the active block state - it remains active for resuming
-              } catch (error) {
-                console.error('Error pausing focus:', error);
-              }
-            }
+            onPress: exitFocusMode // The block stays active for resuming
           }
         ]
       );
@@ -224,20 +173,17 @@ export default function FocusScreen() {
             style: 'destructive',
             onPress: async () => {
               try {
-                const updatedBlocks = allBlocks.map(b => 
-                  b.id === activeBlock.id 
-                    ? { ...b, isActive: false, progress: 50 } // Mark as partially completed
-                    : b
-                );
-                
-                setAllBlocks(updatedBlocks);
-                await saveTimeBlocks(updatedBlocks);
-                
-                await updateFocusMode(false); // Show tab bar
-                setActiveBlock(null);
+                const endedBlock = await endFocus();
                 
                 // Reload data to update all states
                 await loadData();
+
+                if (endedBlock) {
+                  const unfinishedItems = getUnfinishedItems([{ ...endedBlock, isActive: false }]);
+                  if (unfinishedItems.length > 0) {
+                    await openCarryOver(endedBlock, unfinishedItems);
+                  }
+                }
               } catch (error) {
                 console.error('Error ending focus:', error);
               }
@@ -248,18 +194,44 @@ export default function FocusScreen() {
     }
   };
 
-  const getBlockDuration = (block: TimeBlockData) => {
-    const start = new Date(`2000-01-01 ${block.startTime}`);
-    const end = new Date(`2000-01-01 ${block.endTime}`);
-    return (end.getTime() - start.getTime()) / (1000 * 60); // in minutes
+  // Offer to move the tasks a finished session left unticked
+  const openCarryOver = async (block: TimeBlockData, items: CarryOverItem[]) => {
+    const savedBlocks = await loadTimeBlocks();
+    setCarryOver({
+      title: `Carry Over from ${block.title}`,
+      items,
+      laterBlocks: getLaterBlocks(savedBlocks, getTodayDateString(), [block.id]),
+    });
+  };
+
+  const handleConfirmCarryOver = async (targets: Record<string, CarryOverTarget>) => {
+    if (!carryOver) return;
+
+    try {
+      const tomorrow = addDays(getTodayDateString(), 1);
+      const saved = await saveCarryOver(carryOver.items, targets, carryOver.laterBlocks, tomorrow);
+      if (!saved) return;
+      setCarryOver(null);
+      await loadData();
+    } catch (error) {
+      console.error('Error carrying over tasks:', error);
+      Alert.alert('Error', 'Failed to move the tasks. Please try again.');
+    }
+  };
+
+  // Blocks completed without a timer fall back to their planned length
+  const getBlockFocusedMinutes = (block: TimeBlockData) => {
+    const blockSessions = todaySessions.filter(session => session.blockId === block.id);
+    return blockSessions.length > 0
+      ? Math.round(getTotalFocusedMinutes(blockSessions))
+      : getBlockDurationMinutes(block);
   };
 
   const getTodayStats = () => {
     const completedCount = completedBlocks.length;
     const totalBlocks = todayBlocks.length;
-    const totalFocusTime = completedBlocks.reduce((acc, block) => {
-      return acc + getBlockDuration(block);
-    }, 0);
+    // Real focus time from today's sessions, not the planned block spans
+    const totalFocusTime = getTotalFocusedMinutes(todaySessions);
     
     return {
       completedSessions: completedCount,
@@ -390,6 +362,13 @@ export default function FocusScreen() {
       fontWeight: '500',
       marginBottom: 16,
     },
+    activeBlockSession: {
+      fontSize: 13,
+      color: colors.primary,
+      fontWeight: '600',
+      marginTop: -8,
+      marginBottom: 16,
+    },
     activeBlockActions: {
       flexDirection: 'row',
       gap: 12,
@@ -576,16 +555,20 @@ export default function FocusScreen() {
   });
 
   // SEPARATE FOCUS MODE VIEW - NO TAB BAR
-  if (isInFocusMode && activeBlock) {
+  if (isInFocusMode && activeBlock && focusSession) {
     return (
       <View style={styles.focusContainer}>
         <FocusTimer
-          duration={getBlockDuration(activeBlock)}
+          key={focusSession.id}
+          session={focusSession}
+          onSessionChange={updateSession}
           onComplete={handleFocusComplete}
           onStop={handleStopFocus}
           onEnd={handleEndFocus}
           blockTitle={activeBlock.title}
           blockColor={activeBlock.color}
+          tasks={activeBlock.tasks}
+          onToggleTask={toggleTask}
         />
       </View>
     );
@@ -642,6 +625,11 @@ export default function FocusScreen() {
                   <Text style={styles.activeBlockDate}>{formatDate(activeBlock.date)}</Text>
                 </View>
                 <Text style={styles.activeBlockCategory}>{activeBlock.category}</Text>
+                {focusSession && (
+                  <Text style={styles.activeBlockSession}>
+                    {isSessionPaused(focusSession) ? 'Paused' : 'Running'} · {formatRemaining(getRemainingMs(focusSession))} left
+                  </Text>
+                )}
                 
                 <View style={styles.activeBlockActions}>
                   <TouchableOpacity 
@@ -730,7 +718,7 @@ export default function FocusScreen() {
                       {formatTime12Hour(block.startTime)} - {formatTime12Hour(block.endTime)}
                     </Text>
                     <Text style={styles.completedBlockDuration}>
-                      ✓ {getBlockDuration(block)} minutes focused
+                      ✓ {getBlockFocusedMinutes(block)} minutes focused
                     </Text>
                   </View>
                   <View style={styles.completedIcon}>
@@ -759,6 +747,17 @@ export default function FocusScreen() {
           </View>
         </View>
       </ScrollView>
+
+      {carryOver && (
+        <CarryOverModal
+          visible
+          title={carryOver.title}
+          items={carryOver.items}
+          laterBlocks={carryOver.laterBlocks}
+          onCancel={() => setCarryOver(null)}
+          onConfirm={handleConfirmCarryOver}
+        />
+      )}
     </View>
   );
 }
\ No newline at end of file
@@ -0,0 +1,592 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Dimensions, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, Plus, Trash2, X, CalendarPlus, ListPlus, Undo2 } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import MobileHeader from '@/components/MobileHeader';
+import { TimeBlockData } from '@/components/TimeBlock';
+import {
+  loadCategories,
+  loadTimeBlocks,
+  saveTimeBlocks,
+  loadInboxTasks,
+  saveInboxTasks,
+  getBlocksInDateRange,
+  BlockCategory,
+  InboxTask,
+} from '@/utils/storage';
+import {
+  createInboxTask,
+  sortInboxTasks,
+  addInboxTaskToBlock,
+  isBlockFinished,
+  hasUnfinishedTasks,
+} from '@/utils/inbox';
+import { moveUnfinishedTasksToInbox } from '@/utils/carryOver';
+import { getTodayDateString, addDays, formatRelativeDate } from '@/utils/date';
+
+const ESTIMATE_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+// How far back finished blocks are checked for unticked tasks, and how far ahead blocks can receive tasks
+const LOOKBACK_DAYS = 7;
+const LOOKAHEAD_DAYS = 7;
+
+type DueOption = 'none' | 'today' | 'tomorrow' | 'nextWeek';
+
+const DUE_OPTIONS: { key: DueOption; label: string; days: number | null }[] = [
+  { key: 'none', label: 'No date', days: null },
+  { key: 'today', label: 'Today', days: 0 },
+  { key: 'tomorrow', label: 'Tomorrow', days: 1 },
+  { key: 'nextWeek', label: 'Next week', days: 7 },
+];
+
+export default function InboxScreen() {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const screenWidth = Dimensions.get('window').width;
+
+  const [inboxTasks, setInboxTasks] = useState<InboxTask[]>([]);
+  const [allBlocks, setAllBlocks] = useState<TimeBlockData[]>([]);
+  const [categories, setCategories] = useState<BlockCategory[]>([]);
+  const [text, setText] = useState('');
+  const [estimate, setEstimate] = useState<number | undefined>(undefined);
+  const [category, setCategory] = useState<string | undefined>(undefined);
+  const [due, setDue] = useState<DueOption>('none');
+  const [assigningTask, setAssigningTask] = useState<InboxTask | null>(null);
+
+  // Reload when coming back, e.g. after turning a task into a block
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
+
+  const loadData = async () => {
+    const [savedTasks, savedBlocks, savedCategories] = await Promise.all([
+      loadInboxTasks(),
+      loadTimeBlocks(),
+      loadCategories(),
+    ]);
+    setInboxTasks(sortInboxTasks(savedTasks));
+    setAllBlocks(savedBlocks);
+    setCategories(savedCategories);
+  };
+
+  const updateInbox = async (updatedTasks: InboxTask[]) => {
+    setInboxTasks(sortInboxTasks(updatedTasks));
+    await saveInboxTasks(updatedTasks);
+  };
+
+  const today = getTodayDateString();
+
+  // Blocks still to come that a task can be added to
+  const upcomingBlocks = getBlocksInDateRange(allBlocks, today, addDays(today, LOOKAHEAD_DAYS))
+    .filter(block => !isBlockFinished(block));
+
+  // Recently finished blocks with tasks left unticked
+  const unfinishedBlocks = getBlocksInDateRange(allBlocks, addDays(today, -LOOKBACK_DAYS), today)
+    .filter(block => isBlockFinished(block) && hasUnfinishedTasks(block));
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  };
+
+  const handleAddTask = async () => {
+    if (!text.trim()) {
+      Alert.alert('Error', 'Please enter a task');
+      return;
+    }
+
+    try {
+      const dueDays = DUE_OPTIONS.find(option => option.key === due)?.days ?? null;
+      const task = createInboxTask(text.trim(), {
+        estimateMinutes: estimate,
+        category,
+        dueDate: dueDays !== null ? addDays(today, dueDays) : undefined,
+      });
+      await updateInbox([...inboxTasks, task]);
+      setText('');
+    } catch (error) {
+      console.error('Error adding inbox task:', error);
+      Alert.alert('Error', 'Failed to add the task. Please try again.');
+    }
+  };
+
+  const handleDeleteTask = (task: InboxTask) => {
+    Alert.alert(
+      'Remove Task',
+      `Remove "${task.text}" from your inbox?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => updateInbox(inboxTasks.filter(t => t.id !== task.id)) },
+      ]
+    );
+  };
+
+  const handleAssignToBlock = async (block: TimeBlockData) => {
+    if (!assigningTask) return;
+
+    try {
+      const updatedBlocks = addInboxTaskToBlock(allBlocks, block, assigningTask);
+      setAllBlocks(updatedBlocks);
+      await saveTimeBlocks(updatedBlocks);
+      await updateInbox(inboxTasks.filter(t => t.id !== assigningTask.id));
+      setAssigningTask(null);
+    } catch (error) {
+      console.error('Error adding task to block:', error);
+      Alert.alert('Error', 'Failed to add the task to the block. Please try again.');
+    }
+  };
+
+  // Open the block form filled in from the task. The task leaves the inbox once the block is saved.
+  const handleCreateBlock = (task: InboxTask) => {
+    router.push({
+      pathname: '/create-block',
+      params: {
+        title: task.text,
+        inboxTaskId: task.id,
+        ...(task.dueDate && task.dueDate >= today ? { date: task.dueDate } : {}),
+        ...(task.estimateMinutes ? { duration: task.estimateMinutes.toString() } : {}),
+        ...(task.category ? { category: task.category } : {}),
+      },
+    });
+  };
+
+  const handleCollectUnfinished = async (block: TimeBlockData) => {
+    try {
+      const result = moveUnfinishedTasksToInbox(allBlocks, block);
+      setAllBlocks(result.blocks);
+      await saveTimeBlocks(result.blocks);
+      await updateInbox([...inboxTasks, ...result.inboxTasks]);
+    } catch (error) {
+      console.error('Error moving unfinished tasks:', error);
+      Alert.alert('Error', 'Failed to move the tasks. Please try again.');
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    content: {
+      padding: Math.max(20, screenWidth * 0.05),
+      paddingLeft: Math.max(insets.left + 20, screenWidth * 0.05),
+      paddingRight: Math.max(insets.right + 20, screenWidth * 0.05),
+      paddingBottom: Math.max(insets.bottom + 32, 32),
+    },
+    section: {
+      marginBottom: 28,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    sectionDescription: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      fontWeight: '500',
+      marginBottom: 16,
+      lineHeight: 18,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    textInput: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderWidth: 2,
+      borderColor: colors.border,
+      borderRadius: 16,
+      padding: 14,
+      fontSize: 16,
+      color: colors.text,
+      fontWeight: '500',
+      minHeight: 52,
+    },
+    addButton: {
+      backgroundColor: colors.primary,
+      width: 52,
+      height: 52,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    addButtonDisabled: {
+      opacity: 0.5,
+    },
+    optionLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginTop: 14,
+      marginBottom: 8,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 7,
+      paddingHorizontal: 12,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: 'white',
+    },
+    categoryDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    taskCard: {
+      padding: 14,
+      marginBottom: 10,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    taskHeader: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+    },
+    taskContent: {
+      flex: 1,
+    },
+    taskText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    taskMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    overdueText: {
+      color: colors.error,
+      fontWeight: '600',
+    },
+    taskActions: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    taskAction: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    taskActionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 16,
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      maxHeight: '75%',
+      paddingBottom: Math.max(insets.bottom, 16),
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    modalTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+      flex: 1,
+    },
+    blockRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    blockColor: {
+      width: 4,
+      alignSelf: 'stretch',
+      borderRadius: 2,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <MobileHeader
+        title="Inbox"
+        subtitle={`${inboxTasks.length} unscheduled task${inboxTasks.length === 1 ? '' : 's'}`}
+        leftComponent={
+          <TouchableOpacity onPress={() => router.back()}>
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.content}>
+          {/* Capture */}
+          <View style={styles.section}>
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.textInput}
+                value={text}
+                onChangeText={setText}
+                placeholder="Capture a task..."
+                placeholderTextColor={colors.textSecondary}
+                returnKeyType="done"
+                onSubmitEditing={handleAddTask}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, !text.trim() && styles.addButtonDisabled]}
+                onPress={handleAddTask}
+                disabled={!text.trim()}
+              >
+                <Plus size={22} color="white" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.optionLabel}>Estimate</Text>
+            <View style={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, estimate === undefined && styles.chipSelected]}
+                onPress={() => setEstimate(undefined)}
+              >
+                <Text style={[styles.chipText, estimate === undefined && styles.chipTextSelected]}>None</Text>
+              </TouchableOpacity>
+              {ESTIMATE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, estimate === option && styles.chipSelected]}
+                  onPress={() => setEstimate(option)}
+                >
+                  <Text style={[styles.chipText, estimate === option && styles.chipTextSelected]}>
+                    {formatDuration(option)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.optionLabel}>Category</Text>
+            <View style={styles.chipRow}>
+              <TouchableOpacity
+                style={[styles.chip, category === undefined && styles.chipSelected]}
+                onPress={() => setCategory(undefined)}
+              >
+                <Text style={[styles.chipText, category === undefined && styles.chipTextSelected]}>None</Text>
+              </TouchableOpacity>
+              {categories.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, category === option.name && styles.chipSelected]}
+                  onPress={() => setCategory(option.name)}
+                >
+                  <View style={[styles.categoryDot, { backgroundColor: category === option.name ? 'white' : option.color }]} />
+                  <Text style={[styles.chipText, category === option.name && styles.chipTextSelected]}>
+                    {option.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.optionLabel}>Due</Text>
+            <View style={styles.chipRow}>
+              {DUE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, due === option.key && styles.chipSelected]}
+                  onPress={() => setDue(option.key)}
+                >
+                  <Text style={[styles.chipText, due === option.key && styles.chipTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Inbox Tasks */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Unscheduled</Text>
+            <Text style={styles.sectionDescription}>
+              Add a task to one of your upcoming blocks, or turn it into a block of its own.
+            </Text>
+
+            {inboxTasks.length === 0 ? (
+              <Text style={styles.emptyText}>Your inbox is empty 🎉</Text>
+            ) : (
+              inboxTasks.map(task => {
+                const isOverdue = !!task.dueDate && task.dueDate < today;
+                const details = [
+                  task.estimateMinutes ? formatDuration(task.estimateMinutes) : null,
+                  task.category ?? null,
+                  task.carriedFrom ? `From ${task.carriedFrom.blockTitle}, ${formatRelativeDate(task.carriedFrom.date)}` : null,
+                ].filter(Boolean).join(' · ');
+
+                return (
+                  <View key={task.id} style={styles.taskCard}>
+                    <View style={styles.taskHeader}>
+                      <View style={styles.taskContent}>
+                        <Text style={styles.taskText}>{task.text}</Text>
+                        <Text style={styles.taskMeta}>
+                          {task.dueDate && (
+                            <Text style={isOverdue ? styles.overdueText : undefined}>
+                              {isOverdue ? 'Overdue · ' : 'Due '}{formatRelativeDate(task.dueDate)}
+                              {details ? ' · ' : ''}
+                            </Text>
+                          )}
+                          {details}
+                        </Text>
+                      </View>
+                      <TouchableOpacity onPress={() => handleDeleteTask(task)}>
+                        <Trash2 size={16} color={colors.error} />
+                      </TouchableOpacity>
+                    </View>
+
+                    <View style={styles.taskActions}>
+                      <TouchableOpacity style={styles.taskAction} onPress={() => setAssigningTask(task)}>
+                        <ListPlus size={14} color={colors.text} />
+                        <Text style={styles.taskActionText}>Add to Block</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.taskAction} onPress={() => handleCreateBlock(task)}>
+                        <CalendarPlus size={14} color={colors.text} />
+                        <Text style={styles.taskActionText}>New Block</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })
+            )}
+          </View>
+
+          {/* Unfinished Tasks */}
+          {unfinishedBlocks.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Left Unfinished</Text>
+              <Text style={styles.sectionDescription}>
+                Finished blocks from the last week with tasks that weren't ticked off.
+              </Text>
+
+              {unfinishedBlocks.map(block => {
+                const unfinished = block.tasks.filter(task => !task.isDone);
+                return (
+                  <View key={block.id} style={styles.taskCard}>
+                    <Text style={styles.taskText}>{block.title}</Text>
+                    <Text style={styles.taskMeta}>
+                      {formatRelativeDate(block.date)} · {unfinished.map(task => task.text).join(', ')}
+                    </Text>
+                    <View style={styles.taskActions}>
+                      <TouchableOpacity style={styles.taskAction} onPress={() => handleCollectUnfinished(block)}>
+                        <Undo2 size={14} color={colors.text} />
+                        <Text style={styles.taskActionText}>
+                          Move {unfinished.length} to Inbox
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Block Picker */}
+      <Modal
+        visible={assigningTask !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setAssigningTask(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle} numberOfLines={1}>Add "{assigningTask?.text}" to...</Text>
+              <TouchableOpacity onPress={() => setAssigningTask(null)}>
+                <X size={22} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView>
+              {upcomingBlocks.length === 0 ? (
+                <Text style={styles.emptyText}>No upcoming blocks in the next {LOOKAHEAD_DAYS} days</Text>
+              ) : (
+                upcomingBlocks.map(block => (
+                  <TouchableOpacity key={block.id} style={styles.blockRow} onPress={() => handleAssignToBlock(block)}>
+                    <View style={[styles.blockColor, { backgroundColor: block.color }]} />
+                    <View style={styles.taskContent}>
+                      <Text style={styles.taskText} numberOfLines={1}>{block.title}</Text>
+                      <Text style={styles.taskMeta}>
+                        {formatRelativeDate(block.date)} · {formatTime12Hour(block.startTime)} - {formatTime12Hour(block.endTime)}
+                        {block.tasks.length > 0 ? ` · ${block.tasks.length} task${block.tasks.length === 1 ? '' : 's'}` : ''}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
@@ -1,21 +1,70 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, SafeAreaView, Alert, Dimensions, Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Plus, Calendar, TrendingUp, ChevronLeft, ChevronRight } from 'lucide-react-native';
-import { router } from 'expo-router';
+import { Plus, Calendar, TrendingUp, ChevronLeft, ChevronRight, Inbox, List, ChartGantt } from 'lucide-react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
-import TimeBlock, { TimeBlockData } from '@/components/TimeBlock';
+import TimeBlock, { TimeBlockData, RepeatEditScope } from '@/components/TimeBlock';
 import MobileHeader from '@/components/MobileHeader';
-import { loadTimeBlocks, saveTimeBlocks, filterBlocksByDate, getTodayDateString } from '@/utils/storage';
+import CarryOverModal from '@/components/CarryOverModal';
+import DayTimeline from '@/components/DayTimeline';
+import QuickBlockMenu from '@/components/QuickBlockMenu';
+import TemplateEditor from '@/components/TemplateEditor';
+import DayTemplateMenu from '@/components/DayTemplateMenu';
+import UndoSnackbar from '@/components/UndoSnackbar';
+import DatePicker from '@/components/DatePicker';
+import {
+  loadTimeBlocks,
+  saveTimeBlocks,
+  filterBlocksByDate,
+  getBlocksOnDate,
+  loadInboxTasks,
+  loadLastRolloverDate,
+  saveLastRolloverDate,
+  loadTemplates,
+  loadDayTemplates,
+  saveDayTemplates,
+  loadSettings,
+  DEFAULT_TIMELINE_SNAP_MINUTES,
+  BlockTemplate,
+  DayTemplate,
+} from '@/utils/storage';
+import { getTodayDateString, addDays, formatRelativeDate, isDateString } from '@/utils/date';
+import { applyBlockUpdate, removeBlock } from '@/utils/recurrence';
+import { resolveBlockConflicts, resolveBatchConflicts } from '@/utils/conflicts';
+import { showChoicePrompt } from '@/utils/choicePrompt';
+import { resolveEditConflicts } from '@/utils/blockEdit';
+import { getBlockDurationMinutes, isOvernightBlock } from '@/utils/blockTime';
+import { createTasks, getTaskToggleChanges } from '@/utils/tasks';
+import { isBlockFinished, hasUnfinishedTasks } from '@/utils/inbox';
+import { createTemplate, getTemplateFieldsFromBlock, createBlockFromTemplate, saveTemplate } from '@/utils/templates';
+import { createDayTemplate, getDayTemplateBlocks } from '@/utils/dayTemplates';
+import { CarryOverItem, CarryOverTarget, getUnfinishedItems, getRolloverItems, getLaterBlocks, saveCarryOver } from '@/utils/carryOver';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFocusSession } from '@/contexts/FocusSessionContext';
 
 export default function TodayScreen() {
   const [blocks, setBlocks] = useState<TimeBlockData[]>([]);
   const [allBlocks, setAllBlocks] = useState<TimeBlockData[]>([]);
   const [selectedDate, setSelectedDate] = useState(getTodayDateString());
+  const [inboxCount, setInboxCount] = useState(0);
+  const [carryOver, setCarryOver] = useState<{ title: string; items: CarryOverItem[]; laterBlocks: TimeBlockData[] } | null>(null);
+  const rolloverChecked = useRef(false);
+  const [templates, setTemplates] = useState<BlockTemplate[]>([]);
+  const [isQuickMenuVisible, setIsQuickMenuVisible] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<BlockTemplate | null>(null);
+  const [dayTemplates, setDayTemplates] = useState<DayTemplate[]>([]);
+  const [isDayTemplateMenuVisible, setIsDayTemplateMenuVisible] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
-  const [activeBlockId, setActiveBlockId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'timeline'>('list');
+  const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+  const [snapMinutes, setSnapMinutes] = useState(DEFAULT_TIMELINE_SNAP_MINUTES);
+  const [isDragging, setIsDragging] = useState(false);
+  const [undo, setUndo] = useState<{ message: string; blockId: string; startTime: string; endTime: string } | null>(null);
+  // Other screens can open a day here, e.g. from the month calendar
+  const params = useLocalSearchParams<{ date?: string }>();
   const { colors } = useTheme();
+  const { startFocus } = useFocusSession();
   const insets = useSafeAreaInsets();
   const screenWidth = Dimensions.get('window').width;
   const isWeb = Platform.OS === 'web';
@@ -36,56 +85,64 @@ export default function TodayScreen() {
     }, [])
   );
 
-  // Update displayed blocks when date changes
+  // The screen stays mounted, so drop the param once used or opening the same day again wouldn't switch to it
   useEffect(() => {
-    const filteredBlocks = filterBlocksByDate(allBlocks, selectedDate);
+    if (isDateString(params.date)) {
+      setSelectedDate(params.date);
+      router.setParams({ date: undefined });
+    }
+  }, [params.date]);
+
+  // Update displayed blocks when date changes, including overnight blocks from the night before
+  useEffect(() => {
+    const filteredBlocks = getBlocksOnDate(allBlocks, selectedDate);
     setBlocks(filteredBlocks);
   }, [selectedDate, allBlocks]);
 
   const loadData = async () => {
-    const savedBlocks = await loadTimeBlocks();
+    const [savedBlocks, inboxTasks, savedTemplates, savedDayTemplates, settings] = await Promise.all([
+      loadTimeBlocks(),
+      loadInboxTasks(),
+      loadTemplates(),
+      loadDayTemplates(),
+      loadSettings(),
+    ]);
     setAllBlocks(savedBlocks);
-    const filteredBlocks = filterBlocksByDate(savedBlocks, selectedDate);
+    setInboxCount(inboxTasks.length);
+    setTemplates(savedTemplates);
+    setDayTemplates(savedDayTemplates);
+    setSnapMinutes(settings.timelineSnapMinutes);
+    const filteredBlocks = getBlocksOnDate(savedBlocks, selectedDate);
     setBlocks(filteredBlocks);
+    checkDayRollover(savedBlocks);
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-
-    // Reset time for comparison
-    const blockDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const tomorrowDate = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
-    const yesterdayDate = new Date(yesterday.getFullYear(), yesterday.getMonth(), yesterday.getDate());
-
-    if (blockDate.getTime() === todayDate.getTime()) {
-      return 'Today';
-    } else if (blockDate.getTime() === tomorrowDate.getTime()) {
-      return 'Tomorrow';
-    } else if (blockDate.getTime() === yesterdayDate.getTime()) {
-      return 'Yesterday';
-    } else {
-      return date.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        month: 'long', 
-        day: 'numeric' 
+  // On the first open of a new day, offer to carry over what was left unfinished since the last one
+  const checkDayRollover = async (savedBlocks: TimeBlockData[]) => {
+    if (rolloverChecked.current) return;
+    rolloverChecked.current = true;
+
+    const today = getTodayDateString();
+    const lastRolloverDate = await loadLastRolloverDate();
+    await saveLastRolloverDate(today);
+    if (!lastRolloverDate || lastRolloverDate >= today) return;
+
+    const items = getRolloverItems(savedBlocks, lastRolloverDate, today);
+    if (items.length > 0) {
+      setCarryOver({
+        title: 'Start Your Day',
+        items,
+        laterBlocks: getLaterBlocks(savedBlocks, today),
       });
     }
   };
 
+  const formatDate = (dateString: string) => {
+    return formatRelativeDate(dateString, { weekday: 'long', month: 'long', day: 'numeric' });
+  };
+
   const navigateDate = (direction: 'prev' | 'next') => {
-    const currentDate = new Date(selectedDate);
-    if (direction === 'next') {
-      currentDate.setDate(currentDate.getDate() + 1);
-    } else {
-      currentDate.setDate(currentDate.getDate() - 1);
-    }
-    setSelectedDate(currentDate.toISOString().split('T')[0]);
+    setSelectedDate(addDays(selectedDate, direction === 'next' ? 1 : -1));
   };
 
   const handleBlockPress = (block: TimeBlockData) => {
@@ -98,7 +155,7 @@ export default function TodayScreen() {
     };
 
     const tasksList = block.tasks.length > 0 
-      ? '\n\nTasks:\n' + block.tasks.map(task => `• ${task}`).join('\n')
+      ? '\n\nTasks:\n' + block.tasks.map(task => `${task.isDone ? '✓' : '•'} ${task.text}`).join('\n')
       : '\n\nNo tasks added yet.';
 
     const statusText = block.isCompleted 
@@ -110,11 +167,14 @@ export default function TodayScreen() {
     Alert.alert(
       `📋 ${block.title}`,
       `📅 ${formatDate(block.date)}\n` +
-      `⏰ ${formatTime12Hour(block.startTime)} - ${formatTime12Hour(block.endTime)}\n` +
+      `⏰ ${formatTime12Hour(block.startTime)} - ${formatTime12Hour(block.endTime)}${isOvernightBlock(block) ? ' (next day)' : ''}\n` +
       `🏷️ Category: ${block.category}\n` +
       `📊 Status: ${statusText}${tasksList}`,
       [
         { text: 'Close', style: 'cancel' },
+        ...(isBlockFinished(block) && hasUnfinishedTasks(block)
+          ? [{ text: 'Carry Over Tasks', onPress: () => handleCarryOverBlock(block) }]
+          : []),
         { 
           text: 'Start Focus', 
           onPress: () => handleStartFocus(block),
@@ -124,19 +184,32 @@ export default function TodayScreen() {
     );
   };
 
+  const handleCarryOverBlock = (block: TimeBlockData) => {
+    setCarryOver({
+      title: `Carry Over from ${block.title}`,
+      items: getUnfinishedItems([block]),
+      laterBlocks: getLaterBlocks(allBlocks, getTodayDateString(), [block.id]),
+    });
+  };
+
+  const handleConfirmCarryOver = async (targets: Record<string, CarryOverTarget>) => {
+    if (!carryOver) return;
+
+    try {
+      const tomorrow = addDays(getTodayDateString(), 1);
+      const saved = await saveCarryOver(carryOver.items, targets, carryOver.laterBlocks, tomorrow);
+      if (!saved) return;
+      setCarryOver(null);
+      await loadData();
+    } catch (error) {
+      console.error('Error carrying over tasks:', error);
+      Alert.alert('Error', 'Failed to move the tasks. Please try again.');
+    }
+  };
+
   const handleStartFocus = async (block: TimeBlockData) => {
     try {
-      setActiveBlockId(block.id);
-      
-      // Update block as active and deactivate others
-      const updatedBlocks = allBlocks.map(b => 
-        b.id === block.id 
-          ? { ...b, isActive: true }
-          : { ...b, isActive: false }
-      );
-      
-      setAllBlocks(updatedBlocks);
-      await saveTimeBlocks(updatedBlocks);
+      await startFocus(block);
       
       // Navigate to focus tab
       router.push('/(tabs)/focus');
@@ -146,9 +219,9 @@ export default function TodayScreen() {
     }
   };
 
-  const handleDeleteBlock = async (blockId: string) => {
+  const handleDeleteBlock = async (blockId: string, scope?: RepeatEditScope) => {
     try {
-      const updatedBlocks = allBlocks.filter(block => block.id !== blockId);
+      const updatedBlocks = removeBlock(allBlocks, blockId, scope);
       setAllBlocks(updatedBlocks);
       await saveTimeBlocks(updatedBlocks);
       Alert.alert('Success', 'Time block has been deleted!');
@@ -158,39 +231,95 @@ export default function TodayScreen() {
     }
   };
 
-  const handleEditBlock = async (blockId: string, updatedData: Partial<TimeBlockData>) => {
+  // Resolves false when the edit clashes with another block and the user backs out
+  const handleEditBlock = async (blockId: string, updatedData: Partial<TimeBlockData>, scope?: RepeatEditScope) => {
     try {
-      const updatedBlocks = allBlocks.map(block => 
-        block.id === blockId 
-          ? { ...block, ...updatedData }
-          : block
-      );
+      const block = blocks.find(b => b.id === blockId);
+      const changes = block ? await resolveEditConflicts(allBlocks, block, updatedData) : updatedData;
+      if (!changes) return false;
+
+      const updatedBlocks = applyBlockUpdate(allBlocks, blockId, changes, scope);
       setAllBlocks(updatedBlocks);
       await saveTimeBlocks(updatedBlocks);
       Alert.alert('Success', 'Time block has been updated!');
+      return true;
     } catch (error) {
       console.error('Error updating block:', error);
       Alert.alert('Error', 'Failed to update time block. Please try again.');
+      return false;
+    }
+  };
+
+  // Dragging on the timeline only moves that occurrence of a repeating block. Its times from
+  // before the drag are kept so the move can be undone without touching later changes.
+  const handleRescheduleBlock = async (block: TimeBlockData, startTime: string, endTime: string) => {
+    try {
+      const resolvedBlock = await resolveBlockConflicts(allBlocks, { ...block, startTime, endTime });
+      if (!resolvedBlock) return;
+
+      const updatedBlocks = applyBlockUpdate(
+        allBlocks,
+        block.id,
+        { startTime: resolvedBlock.startTime, endTime: resolvedBlock.endTime },
+        'this'
+      );
+      setAllBlocks(updatedBlocks);
+      await saveTimeBlocks(updatedBlocks);
+      setUndo({
+        message: `Moved "${block.title}" to ${formatTime12Hour(resolvedBlock.startTime)} - ${formatTime12Hour(resolvedBlock.endTime)}`,
+        blockId: block.id,
+        startTime: block.startTime,
+        endTime: block.endTime,
+      });
+    } catch (error) {
+      console.error('Error rescheduling block:', error);
+      Alert.alert('Error', 'Failed to reschedule time block. Please try again.');
+    }
+  };
+
+  const handleUndoReschedule = async () => {
+    if (!undo) return;
+    try {
+      // The moved occurrence was detached under its own id, so 'this' finds it again
+      const updatedBlocks = applyBlockUpdate(allBlocks, undo.blockId, { startTime: undo.startTime, endTime: undo.endTime }, 'this');
+      setAllBlocks(updatedBlocks);
+      await saveTimeBlocks(updatedBlocks);
+    } catch (error) {
+      console.error('Error undoing reschedule:', error);
+      Alert.alert('Error', 'Failed to undo the change. Please try again.');
+    } finally {
+      setUndo(null);
+    }
+  };
+
+  // Ticking a task only touches that occurrence of a repeating block
+  const handleToggleTask = async (blockId: string, taskId: string) => {
+    try {
+      const block = blocks.find(b => b.id === blockId);
+      if (!block) return;
+
+      const updatedBlocks = applyBlockUpdate(allBlocks, blockId, getTaskToggleChanges(block, taskId), 'this');
+      setAllBlocks(updatedBlocks);
+      await saveTimeBlocks(updatedBlocks);
+    } catch (error) {
+      console.error('Error updating task:', error);
     }
   };
 
   const handleAddQuickBlock = () => {
-    Alert.alert(
-      'Add Quick Block',
-      'Choose a quick block duration:',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: '30 min', onPress: () => createQuickBlock(30) },
-        { text: '60 min', onPress: () => createQuickBlock(60) },
-        { text: '90 min', onPress: () => createQuickBlock(90) },
-      ]
-    );
+    setIsQuickMenuVisible(true);
+  };
+
+  // Helper function to get the current time as HH:mm
+  const getCurrentTimeString = () => {
+    const now = new Date();
+    return `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
   };
 
   const createQuickBlock = async (duration: number) => {
     try {
       const now = new Date();
-      const startTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
+      const startTime = getCurrentTimeString();
       const endDate = new Date(now.getTime() + duration * 60000);
       const endTime = `${endDate.getHours().toString().padStart(2, '0')}:${endDate.getMinutes().toString().padStart(2, '0')}`;
 
@@ -202,13 +331,17 @@ export default function TodayScreen() {
         endTime,
         category: 'Personal',
         color: '#FF6B35',
-        tasks: ['Focus on current task'],
+        tasks: createTasks(['Focus on current task']),
         isActive: false,
         isCompleted: false,
         progress: 0,
       };
 
-      const updatedBlocks = [...allBlocks, newBlock];
+      const resolvedBlock = await resolveBlockConflicts(allBlocks, newBlock);
+      if (!resolvedBlock) return;
+      setIsQuickMenuVisible(false);
+
+      const updatedBlocks = [...allBlocks, resolvedBlock];
       setAllBlocks(updatedBlocks);
       await saveTimeBlocks(updatedBlocks);
       
@@ -219,50 +352,99 @@ export default function TodayScreen() {
     }
   };
 
-  const handleCopyYesterday = () => {
-    const yesterday = new Date(selectedDate);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayString = yesterday.toISOString().split('T')[0];
-    
-    const yesterdayBlocks = filterBlocksByDate(allBlocks, yesterdayString);
-    
-    if (yesterdayBlocks.length === 0) {
-      Alert.alert('No Blocks Found', 'There are no blocks from yesterday to copy.');
-      return;
+  const createTemplateBlock = async (template: BlockTemplate) => {
+    try {
+      const newBlock = createBlockFromTemplate(template, selectedDate, getCurrentTimeString());
+      const resolvedBlock = await resolveBlockConflicts(allBlocks, newBlock);
+      if (!resolvedBlock) return;
+      setIsQuickMenuVisible(false);
+
+      const updatedBlocks = [...allBlocks, resolvedBlock];
+      setAllBlocks(updatedBlocks);
+      await saveTimeBlocks(updatedBlocks);
+
+      Alert.alert('Success', `"${template.title}" block has been added!`);
+    } catch (error) {
+      console.error('Error creating block from template:', error);
+      Alert.alert('Error', 'Failed to create block. Please try again.');
     }
+  };
 
-    Alert.alert(
-      'Copy Yesterday\'s Plan',
-      `This will copy ${yesterdayBlocks.length} time blocks from yesterday to ${formatDate(selectedDate)}. Continue?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Copy', onPress: () => copyBlocks(yesterdayBlocks) },
-      ]
+  const handleSaveAsTemplate = (block: TimeBlockData) => {
+    setTemplateDraft(createTemplate(getTemplateFieldsFromBlock(block)));
+  };
+
+  const handleConfirmTemplate = async (template: BlockTemplate) => {
+    try {
+      setTemplates(await saveTemplate(template));
+      setTemplateDraft(null);
+      Alert.alert('Template Saved', `"${template.name}" is now available as a preset.`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      Alert.alert('Error', 'Failed to save template. Please try again.');
+    }
+  };
+
+  const handleSaveDayTemplate = async (name: string) => {
+    try {
+      const template = createDayTemplate(name, allBlocks, selectedDate);
+      const updatedTemplates = [...dayTemplates, template];
+      setDayTemplates(updatedTemplates);
+      await saveDayTemplates(updatedTemplates);
+      setIsDayTemplateMenuVisible(false);
+
+      Alert.alert('Template Saved', `"${name}" can now be applied to any day.`);
+    } catch (error) {
+      console.error('Error saving day template:', error);
+      Alert.alert('Error', 'Failed to save day template. Please try again.');
+    }
+  };
+
+  const handleApplyDayTemplate = async (template: DayTemplate) => {
+    const confirmed = await showChoicePrompt(
+      `Apply ${template.name}`,
+      `This will add ${template.blocks.length} time blocks to ${formatDate(selectedDate)}. Continue?`,
+      [{ label: 'Apply', value: true }]
     );
+    if (confirmed) await applyDayTemplate(template);
   };
 
-  const copyBlocks = async (blocksToCopy: TimeBlockData[]) => {
+  const applyDayTemplate = async (template: DayTemplate) => {
     try {
-      const copiedBlocks = blocksToCopy.map(block => ({
-        ...block,
-        id: `${Date.now()}-${Math.random()}`,
-        date: selectedDate,
-        isActive: false,
-        isCompleted: false,
-        progress: 0,
-      }));
+      const blocksToAdd = await resolveBatchConflicts(allBlocks, getDayTemplateBlocks(template, selectedDate));
+      if (!blocksToAdd) return;
+      setIsDayTemplateMenuVisible(false);
 
-      const updatedBlocks = [...allBlocks, ...copiedBlocks];
+      const updatedBlocks = [...allBlocks, ...blocksToAdd];
       setAllBlocks(updatedBlocks);
       await saveTimeBlocks(updatedBlocks);
       
-      Alert.alert('Success', `${copiedBlocks.length} blocks have been copied!`);
+      Alert.alert('Success', `${blocksToAdd.length} blocks have been added!`);
     } catch (error) {
-      console.error('Error copying blocks:', error);
-      Alert.alert('Error', 'Failed to copy blocks. Please try again.');
+      console.error('Error applying day template:', error);
+      Alert.alert('Error', 'Failed to apply day template. Please try again.');
     }
   };
 
+  const handleDeleteDayTemplate = (template: DayTemplate) => {
+    Alert.alert(
+      'Delete Day Template',
+      `Delete "${template.name}"? Blocks already added from it stay as they are.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const updatedTemplates = dayTemplates.filter(t => t.id !== template.id);
+            setDayTemplates(updatedTemplates);
+            await saveDayTemplates(updatedTemplates);
+          }
+        }
+      ]
+    );
+  };
+
   const handleAddButtonPress = () => {
     router.push('/create-block');
   };
@@ -271,6 +453,14 @@ export default function TodayScreen() {
     router.push('/create-block');
   };
 
+  const handleOpenInbox = () => {
+    router.push('/inbox');
+  };
+
+  const handlePlanDay = () => {
+    router.push({ pathname: '/plan-day', params: { date: selectedDate } });
+  };
+
   const handleNotificationsPress = () => {
     Alert.alert('Notifications', `You have ${blocks.length} blocks scheduled for ${formatDate(selectedDate)}!`);
   };
@@ -278,11 +468,7 @@ export default function TodayScreen() {
   const getTodayStats = () => {
     const completed = blocks.filter(b => b.isCompleted).length;
     const total = blocks.length;
-    const totalMinutes = blocks.reduce((acc, block) => {
-      const start = new Date(`2000-01-01 ${block.startTime}`);
-      const end = new Date(`2000-01-01 ${block.endTime}`);
-      return acc + (end.getTime() - start.getTime()) / (1000 * 60);
-    }, 0);
+    const totalMinutes = blocks.reduce((acc, block) => acc + getBlockDurationMinutes(block), 0);
     
     return { completed, total, totalMinutes };
   };
@@ -304,6 +490,7 @@ export default function TodayScreen() {
   };
 
   const isToday = selectedDate === getTodayDateString();
+  const isPastDate = selectedDate < getTodayDateString();
 
   const styles = StyleSheet.create({
     container: {
@@ -320,6 +507,38 @@ export default function TodayScreen() {
       paddingTop: 16,
       paddingBottom: Math.max(insets.bottom + 32, 32),
     },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    inboxButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inboxBadge: {
+      position: 'absolute',
+      top: -2,
+      right: -2,
+      minWidth: 18,
+      height: 18,
+      borderRadius: 9,
+      paddingHorizontal: 4,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    inboxBadgeText: {
+      color: 'white',
+      fontSize: 10,
+      fontWeight: '700',
+    },
     addButton: {
       backgroundColor: colors.primary,
       width: 44,
@@ -478,6 +697,33 @@ export default function TodayScreen() {
       fontSize: 16,
       fontWeight: '600',
     },
+    scheduleHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+      gap: 12,
+    },
+    scheduleTitle: {
+      flex: 1,
+      marginBottom: 0,
+    },
+    viewToggle: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 2,
+    },
+    viewToggleButton: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 6,
+    },
+    viewToggleButtonActive: {
+      backgroundColor: colors.primary,
+    },
     swipeHint: {
       backgroundColor: colors.surface,
       padding: 12,
@@ -504,13 +750,23 @@ export default function TodayScreen() {
         showNotifications={true}
         onNotificationsPress={handleNotificationsPress}
         rightComponent={
-          <TouchableOpacity style={styles.addButton} onPress={handleAddButtonPress}>
-            <Plus size={20} color="white" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity style={styles.inboxButton} onPress={handleOpenInbox}>
+              <Inbox size={20} color={colors.text} />
+              {inboxCount > 0 && (
+                <View style={styles.inboxBadge}>
+                  <Text style={styles.inboxBadgeText}>{inboxCount > 99 ? '99+' : inboxCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.addButton} onPress={handleAddButtonPress}>
+              <Plus size={20} color="white" />
+            </TouchableOpacity>
+          </View>
         }
       />
 
-      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} scrollEnabled={!isDragging}>
         <View style={styles.content}>
           {/* Date Navigation */}
           <View style={styles.dateNavigation}>
@@ -521,7 +777,9 @@ export default function TodayScreen() {
               <ChevronLeft size={20} color={colors.textSecondary} />
             </TouchableOpacity>
             
-            <Text style={styles.dateTitle}>{formatDate(selectedDate)}</Text>
+            <TouchableOpacity onPress={() => setIsDatePickerVisible(true)}>
+              <Text style={styles.dateTitle}>{formatDate(selectedDate)}</Text>
+            </TouchableOpacity>
             
             <TouchableOpacity 
               style={styles.navButton}
@@ -560,12 +818,30 @@ export default function TodayScreen() {
 
           {/* Time Blocks */}
           <View style={styles.blocksContainer}>
-            <Text style={styles.sectionTitle}>{formatDate(selectedDate)}'s Schedule</Text>
+            <View style={styles.scheduleHeader}>
+              <Text style={[styles.sectionTitle, styles.scheduleTitle]}>{formatDate(selectedDate)}'s Schedule</Text>
+              <View style={styles.viewToggle}>
+                <TouchableOpacity
+                  style={[styles.viewToggleButton, viewMode === 'list' && styles.viewToggleButtonActive]}
+                  onPress={() => setViewMode('list')}
+                >
+                  <List size={16} color={viewMode === 'list' ? 'white' : colors.textSecondary} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.viewToggleButton, viewMode === 'timeline' && styles.viewToggleButtonActive]}
+                  onPress={() => setViewMode('timeline')}
+                >
+                  <ChartGantt size={16} color={viewMode === 'timeline' ? 'white' : colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            </View>
             
             {blocks.length > 0 && (
               <View style={styles.swipeHint}>
                 <Text style={styles.swipeHintText}>
-                  {isWeb 
+                  {viewMode === 'timeline'
+                    ? '💡 Long press a block to drag it, or drag its bottom edge to resize it'
+                    : isWeb 
                     ? '💡 Long press on any block to edit or delete it'
                     : '💡 Swipe left on any block to edit or delete it'
                   }
@@ -583,6 +859,16 @@ export default function TodayScreen() {
                   }
                 </Text>
               </View>
+            ) : viewMode === 'timeline' ? (
+              <DayTimeline
+                blocks={blocks}
+                date={selectedDate}
+                currentTime={currentTime}
+                snapMinutes={snapMinutes}
+                onBlockPress={handleBlockPress}
+                onReschedule={handleRescheduleBlock}
+                onDragStateChange={setIsDragging}
+              />
             ) : (
               blocks.map((block) => (
                 <TimeBlock
@@ -592,6 +878,9 @@ export default function TodayScreen() {
                   onStartFocus={() => handleStartFocus(block)}
                   onDelete={handleDeleteBlock}
                   onEdit={handleEditBlock}
+                  onToggleTask={handleToggleTask}
+                  onSaveAsTemplate={handleSaveAsTemplate}
+                  allBlocks={allBlocks}
                 />
               ))
             )}
@@ -602,6 +891,11 @@ export default function TodayScreen() {
             <TouchableOpacity style={styles.createBlockButton} onPress={handleCreateCustomBlock}>
               <Text style={styles.createBlockText}>Create New Block</Text>
             </TouchableOpacity>
+            {!isPastDate && (
+              <TouchableOpacity style={styles.quickActionButton} onPress={handlePlanDay}>
+                <Text style={styles.quickActionText}>Plan My Day</Text>
+              </TouchableOpacity>
+            )}
             {isToday && (
               <TouchableOpacity style={styles.quickActionButton} onPress={handleAddQuickBlock}>
                 <Text style={styles.quickActionText}>Add Quick Block</Text>
@@ -609,15 +903,70 @@ export default function TodayScreen() {
             )}
             <TouchableOpacity 
               style={[styles.quickActionButton, styles.secondaryAction]}
-              onPress={handleCopyYesterday}
+              onPress={() => setIsDayTemplateMenuVisible(true)}
             >
               <Text style={[styles.quickActionText, styles.secondaryActionText]}>
-                Copy Yesterday's Plan
+                Day Templates
               </Text>
             </TouchableOpacity>
           </View>
         </View>
       </ScrollView>
+
+      <QuickBlockMenu
+        visible={isQuickMenuVisible}
+        templates={templates}
+        onClose={() => setIsQuickMenuVisible(false)}
+        onSelectDuration={createQuickBlock}
+        onSelectTemplate={createTemplateBlock}
+      />
+
+      <DayTemplateMenu
+        visible={isDayTemplateMenuVisible}
+        dateLabel={formatRelativeDate(selectedDate)}
+        blockCount={filterBlocksByDate(allBlocks, selectedDate).length}
+        templates={dayTemplates}
+        onClose={() => setIsDayTemplateMenuVisible(false)}
+        onApply={handleApplyDayTemplate}
+        onSave={handleSaveDayTemplate}
+        onDelete={handleDeleteDayTemplate}
+      />
+
+      <DatePicker
+        visible={isDatePickerVisible}
+        value={selectedDate}
+        title="Go to Date"
+        blocks={allBlocks}
+        onClose={() => setIsDatePickerVisible(false)}
+        onSelect={setSelectedDate}
+      />
+
+      <TemplateEditor
+        visible={templateDraft !== null}
+        heading="Save as Template"
+        template={templateDraft}
+        onCancel={() => setTemplateDraft(null)}
+        onSave={handleConfirmTemplate}
+      />
+
+      {carryOver && (
+        <CarryOverModal
+          visible
+          title={carryOver.title}
+          items={carryOver.items}
+          laterBlocks={carryOver.laterBlocks}
+          onCancel={() => setCarryOver(null)}
+          onConfirm={handleConfirmCarryOver}
+        />
+      )}
+
+      {undo && (
+        <UndoSnackbar
+          message={undo.message}
+          onUndo={handleUndoReschedule}
+          onDismiss={() => setUndo(null)}
+        />
+      )}
     </View>
   );
 }
\ No newline at end of file
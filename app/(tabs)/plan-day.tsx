@@ -0,0 +1,546 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, Alert, Dimensions } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Plus, Trash2, Check, WandSparkles, TriangleAlert as AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import MobileHeader from '@/components/MobileHeader';
+import { loadCategories, loadSettings, loadTimeBlocks, saveTimeBlocks, BlockCategory, AppSettings } from '@/utils/storage';
+import { planDay, nudgePlannedBlock, DayPlan, DayPlanOptions, PlannerTask, TaskPriority, TASK_PRIORITIES } from '@/utils/scheduler';
+import { resolveBatchConflicts, findBatchOverlaps } from '@/utils/conflicts';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getTodayDateString, isDateString, formatRelativeDate } from '@/utils/date';
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+
+// Minutes a planned block moves per tap when tweaking the proposal
+const NUDGE_MINUTES = 15;
+
+const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+export default function PlanDayScreen() {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const screenWidth = Dimensions.get('window').width;
+  const params = useLocalSearchParams<{ date?: string }>();
+  const date = isDateString(params.date) ? params.date : getTodayDateString();
+
+  const [categories, setCategories] = useState<BlockCategory[]>([]);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [tasks, setTasks] = useState<PlannerTask[]>([]);
+  const [title, setTitle] = useState('');
+  const [duration, setDuration] = useState(60);
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [category, setCategory] = useState('');
+  const [plan, setPlan] = useState<DayPlan | null>(null);
+  const [planOptions, setPlanOptions] = useState<DayPlanOptions | null>(null);
+  const [existingBlocks, setExistingBlocks] = useState<TimeBlockData[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const [savedCategories, savedSettings] = await Promise.all([loadCategories(), loadSettings()]);
+    setCategories(savedCategories);
+    setSettings(savedSettings);
+    setDuration(savedSettings.defaultDuration);
+    if (savedCategories.length > 0) setCategory(savedCategories[0].name);
+  };
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  };
+
+  // Any change to the task list makes the current proposal stale
+  const updateTasks = (updatedTasks: PlannerTask[]) => {
+    setTasks(updatedTasks);
+    setPlan(null);
+  };
+
+  const handleAddTask = () => {
+    if (!title.trim()) {
+      Alert.alert('Error', 'Please enter what you want to work on');
+      return;
+    }
+
+    updateTasks([
+      ...tasks,
+      { id: `${Date.now()}`, title: title.trim(), category, durationMinutes: duration, priority },
+    ]);
+    setTitle('');
+  };
+
+  const handleRemoveTask = (taskId: string) => {
+    updateTasks(tasks.filter(task => task.id !== taskId));
+  };
+
+  const handlePlan = async () => {
+    if (!settings || tasks.length === 0) return;
+
+    const now = new Date();
+    const blocks = await loadTimeBlocks();
+    const options: DayPlanOptions = {
+      workingHours: settings.workingHours,
+      bufferMinutes: settings.scheduling.bufferMinutes,
+      categoryWindows: settings.scheduling.categoryWindows,
+      categories,
+      earliestStart: date === getTodayDateString()
+        ? `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`
+        : undefined,
+    };
+    const newPlan = planDay(blocks, tasks, date, options);
+
+    setExistingBlocks(blocks);
+    setPlanOptions(options);
+    setPlan(newPlan);
+    setSelectedIds(new Set(newPlan.planned.map(item => item.block.id)));
+  };
+
+  const toggleSelected = (blockId: string) => {
+    const updated = new Set(selectedIds);
+    if (updated.has(blockId)) {
+      updated.delete(blockId);
+    } else {
+      updated.add(blockId);
+    }
+    setSelectedIds(updated);
+  };
+
+  // Move one planned block earlier or later, within the hours its task may be planned in
+  const handleNudge = (blockId: string, minutes: number) => {
+    if (!plan || !planOptions) return;
+
+    setPlan({
+      ...plan,
+      planned: plan.planned.map(item => item.block.id === blockId
+        ? { ...item, block: nudgePlannedBlock(item, minutes, date, planOptions) }
+        : item),
+    });
+  };
+
+  // Nudged blocks can run into existing blocks or each other, so ticked blocks are checked again
+  const selectedBlocks = plan ? plan.planned.filter(item => selectedIds.has(item.block.id)).map(item => item.block) : [];
+  const overlapsById = new Map(findBatchOverlaps(existingBlocks, selectedBlocks).map((overlaps, index) => [selectedBlocks[index].id, overlaps]));
+
+  const handleAccept = async () => {
+    if (!plan) return;
+
+    setIsSaving(true);
+    try {
+      const blocks = await loadTimeBlocks();
+      const blocksToAdd = await resolveBatchConflicts(blocks, selectedBlocks);
+      if (!blocksToAdd) return;
+
+      await saveTimeBlocks([...blocks, ...blocksToAdd]);
+      Alert.alert('✅ Day Planned', `Added ${blocksToAdd.length} time block${blocksToAdd.length === 1 ? '' : 's'} to ${formatRelativeDate(date)}.`);
+      router.back();
+    } catch (error) {
+      console.error('Error saving planned blocks:', error);
+      Alert.alert('Error', 'Failed to save the planned blocks. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedCount = plan ? plan.planned.filter(item => selectedIds.has(item.block.id)).length : 0;
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    content: {
+      padding: Math.max(20, screenWidth * 0.05),
+      paddingLeft: Math.max(insets.left + 20, screenWidth * 0.05),
+      paddingRight: Math.max(insets.right + 20, screenWidth * 0.05),
+      paddingBottom: Math.max(insets.bottom + 32, 32),
+    },
+    section: {
+      marginBottom: 28,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    sectionDescription: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      fontWeight: '500',
+      marginBottom: 16,
+      lineHeight: 18,
+    },
+    titleInput: {
+      backgroundColor: colors.surface,
+      borderWidth: 2,
+      borderColor: colors.border,
+      borderRadius: 16,
+      padding: 16,
+      fontSize: 16,
+      color: colors.text,
+      fontWeight: '600',
+      minHeight: 52,
+    },
+    optionLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: 'white',
+    },
+    categoryDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 20,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 2,
+      borderColor: colors.border,
+      borderStyle: 'dashed',
+      backgroundColor: colors.surface,
+      minHeight: 48,
+    },
+    addButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    taskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      padding: 14,
+      marginBottom: 8,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    rowContent: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 2,
+    },
+    rowMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    overlapText: {
+      fontSize: 12,
+      color: colors.warning,
+      marginTop: 2,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 12,
+    },
+    primaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: colors.primary,
+      paddingVertical: 16,
+      borderRadius: 12,
+      minHeight: 52,
+    },
+    primaryButtonDisabled: {
+      opacity: 0.5,
+    },
+    primaryButtonText: {
+      color: 'white',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    checkbox: {
+      width: 22,
+      height: 22,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    checkboxSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    nudgeButtons: {
+      flexDirection: 'row',
+      gap: 4,
+    },
+    nudgeButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    warningRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 10,
+      padding: 12,
+      marginBottom: 8,
+      borderRadius: 12,
+      backgroundColor: colors.warning + '15',
+      borderWidth: 1,
+      borderColor: colors.warning + '40',
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <MobileHeader
+        title="Plan My Day"
+        subtitle={settings
+          ? `${formatRelativeDate(date)} · ${formatTime12Hour(settings.workingHours.start)} - ${formatTime12Hour(settings.workingHours.end)}`
+          : formatRelativeDate(date)}
+        leftComponent={
+          <TouchableOpacity onPress={() => router.back()}>
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+        }
+      />
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.content}>
+          {/* New Task */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>What needs doing?</Text>
+            <Text style={styles.sectionDescription}>
+              Add tasks with a rough estimate. They'll be fitted into the free time in your working hours.
+            </Text>
+
+            <TextInput
+              style={styles.titleInput}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="e.g. Write project proposal"
+              placeholderTextColor={colors.textSecondary}
+              returnKeyType="done"
+              onSubmitEditing={handleAddTask}
+            />
+
+            <Text style={styles.optionLabel}>Estimate</Text>
+            <View style={styles.chipRow}>
+              {DURATION_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, duration === option && styles.chipSelected]}
+                  onPress={() => setDuration(option)}
+                >
+                  <Text style={[styles.chipText, duration === option && styles.chipTextSelected]}>
+                    {formatDuration(option)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.optionLabel}>Priority</Text>
+            <View style={styles.chipRow}>
+              {TASK_PRIORITIES.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, priority === option && styles.chipSelected]}
+                  onPress={() => setPriority(option)}
+                >
+                  <Text style={[styles.chipText, priority === option && styles.chipTextSelected]}>
+                    {PRIORITY_LABELS[option]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.optionLabel}>Category</Text>
+            <View style={styles.chipRow}>
+              {categories.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, category === option.name && styles.chipSelected]}
+                  onPress={() => setCategory(option.name)}
+                >
+                  <View style={[styles.categoryDot, { backgroundColor: category === option.name ? 'white' : option.color }]} />
+                  <Text style={[styles.chipText, category === option.name && styles.chipTextSelected]}>
+                    {option.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TouchableOpacity style={styles.addButton} onPress={handleAddTask}>
+              <Plus size={18} color={colors.textSecondary} />
+              <Text style={styles.addButtonText}>Add Task</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Task List */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Tasks ({tasks.length})</Text>
+            {tasks.length === 0 ? (
+              <Text style={styles.emptyText}>No tasks yet</Text>
+            ) : (
+              tasks.map(task => (
+                <View key={task.id} style={styles.taskRow}>
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{task.title}</Text>
+                    <Text style={styles.rowMeta}>
+                      {formatDuration(task.durationMinutes)} · {PRIORITY_LABELS[task.priority]} priority · {task.category}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => handleRemoveTask(task.id)}>
+                    <Trash2 size={16} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { marginTop: 12 }, tasks.length === 0 && styles.primaryButtonDisabled]}
+              onPress={handlePlan}
+              disabled={tasks.length === 0}
+            >
+              <WandSparkles size={18} color="white" />
+              <Text style={styles.primaryButtonText}>{plan ? 'Plan Again' : 'Plan Schedule'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Proposed Schedule */}
+          {plan && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Proposed Schedule</Text>
+              <Text style={styles.sectionDescription}>
+                Untick anything you don't want, or move blocks {NUDGE_MINUTES} minutes at a time.
+              </Text>
+
+              {plan.planned.length === 0 && (
+                <Text style={styles.emptyText}>Nothing could be planned</Text>
+              )}
+
+              {plan.planned.map(({ task, block }) => {
+                const isSelected = selectedIds.has(block.id);
+                const overlaps = overlapsById.get(block.id) ?? [];
+                return (
+                  <View key={block.id} style={styles.taskRow}>
+                    <TouchableOpacity onPress={() => toggleSelected(block.id)}>
+                      <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                        {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                      </View>
+                    </TouchableOpacity>
+                    <View style={styles.rowContent}>
+                      <Text style={styles.rowTitle} numberOfLines={1}>{block.title}</Text>
+                      <Text style={styles.rowMeta}>
+                        {block.date !== date ? `${formatRelativeDate(block.date)} · ` : ''}
+                        {formatTime12Hour(block.startTime)} - {formatTime12Hour(block.endTime)} · {PRIORITY_LABELS[task.priority]}
+                      </Text>
+                      {overlaps.length > 0 && (
+                        <Text style={styles.overlapText} numberOfLines={1}>
+                          Overlaps {overlaps.map(overlap => overlap.title).join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                    <View style={[styles.categoryDot, { backgroundColor: block.color }]} />
+                    <View style={styles.nudgeButtons}>
+                      <TouchableOpacity style={styles.nudgeButton} onPress={() => handleNudge(block.id, -NUDGE_MINUTES)}>
+                        <ChevronLeft size={16} color={colors.textSecondary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.nudgeButton} onPress={() => handleNudge(block.id, NUDGE_MINUTES)}>
+                        <ChevronRight size={16} color={colors.textSecondary} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+
+              {plan.unplanned.map(({ task, reason }) => (
+                <View key={task.id} style={styles.warningRow}>
+                  <AlertTriangle size={16} color={colors.warning} />
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{task.title}</Text>
+                    <Text style={styles.rowMeta}>Not planned: {reason}</Text>
+                  </View>
+                </View>
+              ))}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, { marginTop: 12 }, (selectedCount === 0 || isSaving) && styles.primaryButtonDisabled]}
+                onPress={handleAccept}
+                disabled={selectedCount === 0 || isSaving}
+              >
+                <Check size={18} color="white" />
+                <Text style={styles.primaryButtonText}>
+                  {isSaving ? 'Saving...' : `Add ${selectedCount} Block${selectedCount === 1 ? '' : 's'}`}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
@@ -2,8 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity, TextInput, Alert } from 'react-native';
 import { Star, BookOpen, TrendingUp, Calendar } from 'lucide-react-native';
 import MobileHeader from '@/components/MobileHeader';
-import { loadTimeBlocks, loadReflections, saveReflection, DailyReflection } from '@/utils/storage';
+import { loadTimeBlocks, loadReflections, saveReflection, DailyReflection, loadSessions, getTotalFocusedMinutes, FocusSessionRecord } from '@/utils/storage';
 import { TimeBlockData } from '@/components/TimeBlock';
+import { getTodayDateString } from '@/utils/date';
 import { useTheme } from '@/contexts/ThemeContext';
 
 export default function ReflectScreen() {
@@ -13,6 +14,7 @@ export default function ReflectScreen() {
   const [reflectionText, setReflectionText] = useState('');
   const [rating, setRating] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sessions, setSessions] = useState<FocusSessionRecord[]>([]);
   const { colors } = useTheme();
 
   useEffect(() => {
@@ -20,18 +22,26 @@ export default function ReflectScreen() {
   }, []);
 
   const loadData = async () => {
-    const [savedBlocks, savedReflections] = await Promise.all([
+    const [savedBlocks, savedReflections, savedSessions] = await Promise.all([
       loadTimeBlocks(),
-      loadReflections()
+      loadReflections(),
+      loadSessions()
     ]);
     setBlocks(savedBlocks);
     setReflections(savedReflections);
+    setSessions(savedSessions);
   };
 
-  const today = new Date().toDateString();
+  const today = getTodayDateString();
   const completedBlocks = blocks.filter(block => block.isCompleted);
   const todayReflections = reflections.filter(r => r.date === today);
 
+  // Focused minutes from the block's recorded sessions, or null if it was never timed
+  const getFocusedMinutes = (block: TimeBlockData) => {
+    const blockSessions = sessions.filter(session => session.blockId === block.id);
+    return blockSessions.length > 0 ? Math.round(getTotalFocusedMinutes(blockSessions)) : null;
+  };
+
   const handleBlockSelect = (block: TimeBlockData) => {
     setSelectedBlock(block);
     const existingReflection = todayReflections.find(r => r.blockId === block.id);
@@ -365,6 +375,7 @@ export default function ReflectScreen() {
               <Text style={styles.sectionTitle}>Reflect on Completed Blocks</Text>
               {completedBlocks.map((block) => {
                 const hasReflection = todayReflections.some(r => r.blockId === block.id);
+                const focusedMinutes = getFocusedMinutes(block);
                 return (
                   <TouchableOpacity
                     key={block.id}
@@ -380,6 +391,7 @@ export default function ReflectScreen() {
                       <View style={styles.blockMeta}>
                         <Text style={styles.blockTime}>
                           {block.startTime} - {block.endTime}
+                          {focusedMinutes !== null && ` · ${focusedMinutes}m focused`}
                         </Text>
                         {hasReflection && (
                           <View style={styles.reflectedBadge}>
@@ -1,11 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity, Switch, TextInput, Alert, Dimensions, Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Palette, Bell, User, Moon, Sun, Plus, Trash2, CreditCard as Edit, RotateCcw, Database, Sparkles } from 'lucide-react-native';
+import { Palette, Bell, User, Moon, Sun, Plus, Trash2, CreditCard as Edit, RotateCcw, Database, Sparkles, Download, Upload, CalendarDays, CalendarPlus, Timer, WandSparkles, X, LayoutTemplate, ChevronUp, ChevronDown } from 'lucide-react-native';
+import { useFocusEffect } from '@react-navigation/native';
 import MobileHeader from '@/components/MobileHeader';
-import { loadCategories, saveCategories, BlockCategory, loadSettings, saveSettings, AppSettings, resetAllData, addSampleData, hasAnyData, debugStorage } from '@/utils/storage';
+import { loadCategories, saveCategories, BlockCategory, loadSettings, saveSettings, AppSettings, resetAllData, addSampleData, hasAnyData, debugStorage, loadTimeBlocks, saveTimeBlocks, PomodoroSettings, DEFAULT_POMODORO_SETTINGS, SchedulingSettings, CategoryWindow, DEFAULT_SCHEDULING_SETTINGS, DEFAULT_TIMELINE_SNAP_MINUTES, BlockTemplate, loadTemplates, saveTemplates } from '@/utils/storage';
 import { useTheme } from '@/contexts/ThemeContext';
 import ClockTimePicker from '@/components/ClockTimePicker';
+import { exportBackup, parseBackup, getBackupCounts, restoreBackup, BackupFile, BackupCounts, RestoreMode } from '@/utils/backup';
+import { pickTextFile } from '@/utils/files';
+import { showChoicePrompt } from '@/utils/choicePrompt';
+import { exportCalendar, parseCalendar, buildImportCandidates, CalendarImportCandidate } from '@/utils/ical';
+import CalendarExportModal from '@/components/CalendarExportModal';
+import CalendarImportPreview from '@/components/CalendarImportPreview';
+import TemplateEditor from '@/components/TemplateEditor';
+import { moveTemplate, saveTemplate } from '@/utils/templates';
+import { TimeBlockData } from '@/components/TimeBlock';
 
 export default function SettingsScreen() {
   const [categories, setCategories] = useState<BlockCategory[]>([]);
@@ -14,14 +24,26 @@ export default function SettingsScreen() {
     notificationsEnabled: true,
     workingHours: { start: '09:00', end: '17:00' },
     defaultDuration: 60,
+    timelineSnapMinutes: DEFAULT_TIMELINE_SNAP_MINUTES,
+    pomodoro: DEFAULT_POMODORO_SETTINGS,
+    scheduling: DEFAULT_SCHEDULING_SETTINGS,
   });
+  const [editingWindowCategory, setEditingWindowCategory] = useState<string | null>(null);
   const [editingCategory, setEditingCategory] = useState<BlockCategory | null>(null);
+  const [templates, setTemplates] = useState<BlockTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<BlockTemplate | null>(null);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [isResetting, setIsResetting] = useState(false);
   const [isAddingSample, setIsAddingSample] = useState(false);
   const [hasExistingData, setHasExistingData] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExportingCalendar, setIsExportingCalendar] = useState(false);
+  const [isImportingCalendar, setIsImportingCalendar] = useState(false);
+  const [calendarExportBlocks, setCalendarExportBlocks] = useState<TimeBlockData[] | null>(null);
+  const [calendarImport, setCalendarImport] = useState<{ fileName: string; candidates: CalendarImportCandidate[] } | null>(null);
 
-  const { isDarkMode, toggleDarkMode, colors } = useTheme();
+  const { isDarkMode, toggleDarkMode, setDarkMode, colors } = useTheme();
   const insets = useSafeAreaInsets();
   const screenWidth = Dimensions.get('window').width;
 
@@ -30,13 +52,22 @@ export default function SettingsScreen() {
     checkForExistingData();
   }, []);
 
+  // Templates can be saved from other screens
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates().then(setTemplates);
+    }, [])
+  );
+
   const loadData = async () => {
-    const [savedCategories, savedSettings] = await Promise.all([
+    const [savedCategories, savedSettings, savedTemplates] = await Promise.all([
       loadCategories(),
-      loadSettings()
+      loadSettings(),
+      loadTemplates()
     ]);
     setCategories(savedCategories);
     setSettings(savedSettings);
+    setTemplates(savedTemplates);
   };
 
   const checkForExistingData = async () => {
@@ -57,6 +88,24 @@ export default function SettingsScreen() {
     await saveSettings(updatedSettings);
   };
 
+  const handlePomodoroChange = async (key: keyof PomodoroSettings, value: number | boolean) => {
+    const updatedSettings = { ...settings, pomodoro: { ...settings.pomodoro, [key]: value } };
+    setSettings(updatedSettings);
+    await saveSettings(updatedSettings);
+  };
+
+  const handleSchedulingChange = async (key: keyof SchedulingSettings, value: SchedulingSettings[keyof SchedulingSettings]) => {
+    const updatedSettings = { ...settings, scheduling: { ...settings.scheduling, [key]: value } };
+    setSettings(updatedSettings);
+    await saveSettings(updatedSettings);
+  };
+
+  // Helper function to set or clear (null) the day planner window of a category
+  const handleCategoryWindowChange = async (category: string, window: Omit<CategoryWindow, 'category'> | null) => {
+    const otherWindows = settings.scheduling.categoryWindows.filter(w => w.category !== category);
+    await handleSchedulingChange('categoryWindows', window ? [...otherWindows, { category, ...window }] : otherWindows);
+  };
+
   const handleAddCategory = async () => {
     if (!newCategoryName.trim()) {
       Alert.alert('Error', 'Please enter a category name');
@@ -98,9 +147,13 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
+              const deletedCategory = categories.find(c => c.id === categoryId);
               const updatedCategories = categories.filter(c => c.id !== categoryId);
               setCategories(updatedCategories);
               await saveCategories(updatedCategories);
+              if (deletedCategory) {
+                await handleCategoryWindowChange(deletedCategory.name, null);
+              }
               Alert.alert('Success', 'Category has been deleted!');
             } catch (error) {
               console.error('Error deleting category:', error);
@@ -132,6 +185,18 @@ export default function SettingsScreen() {
       
       setCategories(updatedCategories);
       await saveCategories(updatedCategories);
+
+      // Keep the category's day planner window under its new name
+      await handleSchedulingChange('categoryWindows', settings.scheduling.categoryWindows.map(w =>
+        w.category === editingCategory.name ? { ...w, category: newCategoryName.trim() } : w
+      ));
+
+      // Templates in the category follow the rename too
+      const updatedTemplates = templates.map(t =>
+        t.category === editingCategory.name ? { ...t, category: newCategoryName.trim() } : t
+      );
+      setTemplates(updatedTemplates);
+      await saveTemplates(updatedTemplates);
       setEditingCategory(null);
       setNewCategoryName('');
       
@@ -147,10 +212,59 @@ export default function SettingsScreen() {
     setNewCategoryName('');
   };
 
+  const handleMoveTemplate = async (templateId: string, offset: -1 | 1) => {
+    const updatedTemplates = moveTemplate(templates, templateId, offset);
+    setTemplates(updatedTemplates);
+    await saveTemplates(updatedTemplates);
+  };
+
+  const handleSaveTemplate = async (template: BlockTemplate) => {
+    try {
+      setTemplates(await saveTemplate(template));
+      setEditingTemplate(null);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      Alert.alert('Error', 'Failed to save template. Please try again.');
+    }
+  };
+
+  const handleDeleteTemplate = (template: BlockTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete the "${template.name}" template? Blocks already made from it stay as they are.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const updatedTemplates = templates.filter(t => t.id !== template.id);
+              setTemplates(updatedTemplates);
+              await saveTemplates(updatedTemplates);
+            } catch (error) {
+              console.error('Error deleting template:', error);
+              Alert.alert('Error', 'Failed to delete template. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Helper function to describe a template's length, category and checklist
+  const describeTemplate = (template: BlockTemplate) => {
+    const hours = Math.floor(template.durationMinutes / 60);
+    const minutes = template.durationMinutes % 60;
+    const duration = hours > 0 ? `${hours}h${minutes > 0 ? ` ${minutes}m` : ''}` : `${minutes}m`;
+    const taskCount = template.tasks.length > 0 ? ` · ${template.tasks.length} task${template.tasks.length === 1 ? '' : 's'}` : '';
+    return `${duration} · ${template.category}${taskCount}`;
+  };
+
   const handleResetAllData = () => {
     Alert.alert(
       '🗑️ Reset All Data',
-      'This will permanently delete ALL your data including:\n\n• All time blocks\n• All reflections\n• All categories\n• All settings\n• Theme preferences\n\nThis action cannot be undone.\n\nAre you absolutely sure?',
+      'This will permanently delete ALL your data including:\n\n• All time blocks\n• All reflections\n• All focus sessions\n• All inbox tasks\n• All block and day templates\n• All categories\n• All settings\n• Theme preferences\n\nThis action cannot be undone.\n\nAre you absolutely sure?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -239,10 +353,175 @@ export default function SettingsScreen() {
   };
 
   const durations = [30, 45, 60, 90, 120];
+  const snapOptions = [5, 15];
+  const bufferOptions = [0, 5, 10, 15, 30];
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const pomodoroOptions: { key: keyof PomodoroSettings; label: string; values: number[]; suffix: string }[] = [
+    { key: 'workMinutes', label: 'Work Interval', values: [15, 20, 25, 30, 45, 50], suffix: 'min' },
+    { key: 'shortBreakMinutes', label: 'Short Break', values: [3, 5, 10], suffix: 'min' },
+    { key: 'longBreakMinutes', label: 'Long Break', values: [10, 15, 20, 30], suffix: 'min' },
+    { key: 'cyclesBeforeLongBreak', label: 'Long Break Every', values: [2, 3, 4, 5, 6], suffix: '' },
+  ];
 
   // Check if add button should be disabled
   const isAddButtonDisabled = !newCategoryName.trim();
 
+  const handleExportBackup = async () => {
+    setIsExporting(true);
+    try {
+      if (!(await exportBackup())) {
+        Alert.alert('Export Failed', 'Sharing isn\'t available on this device, so the backup couldn\'t be saved.');
+      }
+    } catch (error) {
+      console.error('Export backup error:', error);
+      Alert.alert('Error', 'Failed to export backup. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Helper function to describe backup contents for confirmation dialogs
+  const describeBackupCounts = (counts: BackupCounts) => {
+    const lines = [
+      `• ${counts.blocks} time blocks`,
+      `• ${counts.categories} categories`,
+      `• ${counts.reflections} reflections`,
+      `• ${counts.sessions} focus sessions`,
+      `• ${counts.inboxTasks} inbox tasks`,
+      `• ${counts.templates} block templates`,
+      `• ${counts.dayTemplates} day templates`,
+    ];
+    if (counts.hasSettings) lines.push('• App settings');
+    if (counts.hasTheme) lines.push('• Theme preference');
+    return lines.join('\n');
+  };
+
+  const handleImportBackup = async () => {
+    let backup: BackupFile;
+    try {
+      const file = await pickTextFile(['application/json', 'text/plain']);
+      if (!file) return;
+      backup = parseBackup(file.contents);
+    } catch (error) {
+      console.error('Import backup error:', error);
+      Alert.alert('Invalid Backup', error instanceof Error ? error.message : 'Failed to read the backup file.');
+      return;
+    }
+
+    const exportedOn = backup.exportedAt ? new Date(backup.exportedAt).toLocaleDateString() : 'an unknown date';
+
+    const mode = await showChoicePrompt<RestoreMode>(
+      '📦 Restore Backup',
+      `This backup from ${exportedOn} contains:\n\n${describeBackupCounts(getBackupCounts(backup))}\n\n` +
+      'Merge adds blocks, categories, reflections, sessions, inbox tasks, block templates and day templates you don\'t have yet.\n' +
+      'Replace overwrites your current data with the backup.',
+      [
+        { label: 'Merge', value: 'merge' },
+        { label: 'Replace', value: 'replace', style: 'destructive' },
+      ]
+    );
+    if (mode) await applyBackup(backup, mode);
+  };
+
+  const applyBackup = async (backup: BackupFile, mode: RestoreMode) => {
+    setIsImporting(true);
+    try {
+      const restored = await restoreBackup(backup, mode);
+
+      if (mode === 'replace' && backup.data.isDarkMode !== null) {
+        setDarkMode(backup.data.isDarkMode);
+      }
+
+      await loadData();
+      await checkForExistingData();
+      Alert.alert(
+        '✅ Backup Restored',
+        mode === 'merge'
+          ? `Added from the backup:\n\n${describeBackupCounts(restored)}`
+          : 'Your data has been replaced with the backup.'
+      );
+    } catch (error) {
+      console.error('Restore backup error:', error);
+      Alert.alert('Error', 'Failed to restore backup. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExportCalendar = async () => {
+    try {
+      setCalendarExportBlocks(await loadTimeBlocks());
+    } catch (error) {
+      console.error('Export calendar error:', error);
+      Alert.alert('Error', 'Failed to load time blocks. Please try again.');
+    }
+  };
+
+  const exportCalendarRange = async (range?: { startDate: string; endDate: string }) => {
+    const blocks = calendarExportBlocks ?? [];
+    setCalendarExportBlocks(null);
+    setIsExportingCalendar(true);
+    try {
+      const eventCount = await exportCalendar(blocks, range);
+      if (eventCount === 0) {
+        Alert.alert('Nothing to Export', 'There are no time blocks in that range.');
+      }
+    } catch (error) {
+      console.error('Export calendar error:', error);
+      Alert.alert('Error', 'Failed to export calendar. Please try again.');
+    } finally {
+      setIsExportingCalendar(false);
+    }
+  };
+
+  const handleImportCalendar = async () => {
+    setIsImportingCalendar(true);
+    try {
+      const file = await pickTextFile(['text/calendar', 'text/x-vcalendar', 'application/octet-stream', 'text/plain']);
+      if (!file) return;
+
+      const events = parseCalendar(file.contents);
+      if (events.length === 0) {
+        Alert.alert('Nothing to Import', 'The calendar file doesn\'t contain any events.');
+        return;
+      }
+
+      const existingBlocks = await loadTimeBlocks();
+      const candidates = buildImportCandidates(events, {
+        existingBlocks,
+        categories,
+        workingHours: settings.workingHours,
+        defaultDuration: settings.defaultDuration,
+      });
+      setCalendarImport({ fileName: file.name, candidates });
+    } catch (error) {
+      console.error('Import calendar error:', error);
+      Alert.alert('Invalid Calendar', error instanceof Error ? error.message : 'Failed to read the calendar file.');
+    } finally {
+      setIsImportingCalendar(false);
+    }
+  };
+
+  const handleConfirmCalendarImport = async (blocks: TimeBlockData[]) => {
+    setCalendarImport(null);
+    try {
+      const existingBlocks = await loadTimeBlocks();
+      await saveTimeBlocks([...existingBlocks, ...blocks]);
+      await checkForExistingData();
+      Alert.alert('✅ Calendar Imported', `Added ${blocks.length} time block${blocks.length === 1 ? '' : 's'} from your calendar.`);
+    } catch (error) {
+      console.error('Save imported blocks error:', error);
+      Alert.alert('Error', 'Failed to save the imported blocks. Please try again.');
+    }
+  };
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -296,6 +575,14 @@ export default function SettingsScreen() {
       marginTop: 4,
       lineHeight: 16,
     },
+    pomodoroOption: {
+      marginTop: 16,
+    },
+    pomodoroLabel: {
+      fontSize: 14,
+      color: colors.text,
+      fontWeight: '600',
+    },
     durationContainer: {
       flexDirection: 'row',
       gap: 8,
@@ -326,6 +613,20 @@ export default function SettingsScreen() {
     selectedDurationText: {
       color: 'white',
     },
+    windowItem: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: 8,
+      marginTop: 8,
+    },
+    windowValue: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
+    windowEditor: {
+      marginTop: 12,
+    },
     addCategoryContainer: {
       flexDirection: 'row',
       gap: 12,
@@ -397,6 +698,9 @@ export default function SettingsScreen() {
       flexDirection: 'row',
       gap: 12,
     },
+    templateText: {
+      flex: 1,
+    },
     categoryActionButton: {
       padding: 8,
       minWidth: 32,
@@ -436,6 +740,22 @@ export default function SettingsScreen() {
       backgroundColor: colors.secondary,
       opacity: isAddingSample ? 0.6 : 1,
     },
+    exportButton: {
+      backgroundColor: colors.primary,
+      opacity: isExporting ? 0.6 : 1,
+    },
+    calendarExportButton: {
+      backgroundColor: colors.secondary,
+      opacity: isExportingCalendar ? 0.6 : 1,
+    },
+    importButton: {
+      backgroundColor: colors.accent,
+      opacity: isImporting ? 0.6 : 1,
+    },
+    calendarImportButton: {
+      backgroundColor: colors.primary,
+      opacity: isImportingCalendar ? 0.6 : 1,
+    },
     dataButtonText: {
       color: 'white',
       fontSize: 16,
@@ -540,6 +860,99 @@ export default function SettingsScreen() {
             />
           </View>
 
+          {/* Day Planner */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <WandSparkles size={20} color={colors.secondary} />
+              <Text style={styles.sectionTitle}>Day Planner</Text>
+            </View>
+
+            <Text style={styles.pomodoroLabel}>Buffer Between Blocks</Text>
+            <View style={styles.durationContainer}>
+              {bufferOptions.map((buffer) => (
+                <TouchableOpacity
+                  key={buffer}
+                  style={[
+                    styles.durationButton,
+                    settings.scheduling.bufferMinutes === buffer && styles.selectedDuration
+                  ]}
+                  onPress={() => handleSchedulingChange('bufferMinutes', buffer)}
+                >
+                  <Text
+                    style={[
+                      styles.durationText,
+                      settings.scheduling.bufferMinutes === buffer && styles.selectedDurationText
+                    ]}
+                  >
+                    {buffer}min
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingDescription}>
+              Free time Plan My Day leaves before and after every block
+            </Text>
+
+            <View style={styles.pomodoroOption}>
+              <Text style={styles.pomodoroLabel}>Category Hours</Text>
+              <Text style={styles.settingDescription}>
+                Limit when Plan My Day schedules each category, e.g. deep work in the morning. Categories without hours can go anywhere in your working hours.
+              </Text>
+            </View>
+
+            {categories.map((category) => {
+              const window = settings.scheduling.categoryWindows.find(w => w.category === category.name);
+              const isEditing = editingWindowCategory === category.name;
+
+              return (
+                <View key={category.id} style={styles.windowItem}>
+                  <View style={styles.categoryItem}>
+                    <TouchableOpacity
+                      style={styles.categoryInfo}
+                      onPress={() => setEditingWindowCategory(window && !isEditing ? category.name : null)}
+                      disabled={!window}
+                    >
+                      <View style={[styles.categoryColor, { backgroundColor: category.color }]} />
+                      <Text style={styles.categoryName}>{category.name}</Text>
+                      <Text style={styles.windowValue}>
+                        {window ? `${formatTime12Hour(window.start)} - ${formatTime12Hour(window.end)}` : 'Any time'}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.categoryActionButton}
+                      onPress={async () => {
+                        if (window) {
+                          setEditingWindowCategory(null);
+                          await handleCategoryWindowChange(category.name, null);
+                        } else {
+                          setEditingWindowCategory(category.name);
+                          await handleCategoryWindowChange(category.name, settings.workingHours);
+                        }
+                      }}
+                    >
+                      {window ? <X size={16} color={colors.error} /> : <Plus size={16} color={colors.textSecondary} />}
+                    </TouchableOpacity>
+                  </View>
+
+                  {window && isEditing && (
+                    <View style={styles.windowEditor}>
+                      <ClockTimePicker
+                        value={window.start}
+                        onTimeChange={(time) => handleCategoryWindowChange(category.name, { start: time, end: window.end })}
+                        label="From"
+                      />
+                      <ClockTimePicker
+                        value={window.end}
+                        onTimeChange={(time) => handleCategoryWindowChange(category.name, { start: window.start, end: time })}
+                        label="Until"
+                      />
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
           {/* Default Duration */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Default Block Duration</Text>
@@ -566,6 +979,100 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {/* Timeline Snapping */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Timeline Snapping</Text>
+            <View style={styles.durationContainer}>
+              {snapOptions.map((snap) => (
+                <TouchableOpacity
+                  key={snap}
+                  style={[
+                    styles.durationButton,
+                    settings.timelineSnapMinutes === snap && styles.selectedDuration
+                  ]}
+                  onPress={() => handleSettingChange('timelineSnapMinutes', snap)}
+                >
+                  <Text
+                    style={[
+                      styles.durationText,
+                      settings.timelineSnapMinutes === snap && styles.selectedDurationText
+                    ]}
+                  >
+                    {snap}min
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.settingDescription}>
+              Dragged and resized blocks on the Today timeline snap to this step.
+            </Text>
+          </View>
+
+          {/* Pomodoro */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Timer size={20} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Pomodoro</Text>
+            </View>
+
+            <View style={styles.settingItem}>
+              <Text style={styles.settingLabel}>Split Blocks Into Intervals</Text>
+              <Switch
+                value={settings.pomodoro.enabled}
+                onValueChange={(value) => handlePomodoroChange('enabled', value)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={settings.pomodoro.enabled ? '#FFF' : '#FFF'}
+              />
+            </View>
+            <Text style={styles.settingDescription}>
+              Focus sessions alternate work intervals with short breaks, and take a long break after several cycles
+            </Text>
+
+            {settings.pomodoro.enabled && (
+              <>
+                {pomodoroOptions.map(option => (
+                  <View key={option.key} style={styles.pomodoroOption}>
+                    <Text style={styles.pomodoroLabel}>{option.label}</Text>
+                    <View style={styles.durationContainer}>
+                      {option.values.map(value => (
+                        <TouchableOpacity
+                          key={value}
+                          style={[
+                            styles.durationButton,
+                            settings.pomodoro[option.key] === value && styles.selectedDuration
+                          ]}
+                          onPress={() => handlePomodoroChange(option.key, value)}
+                        >
+                          <Text
+                            style={[
+                              styles.durationText,
+                              settings.pomodoro[option.key] === value && styles.selectedDurationText
+                            ]}
+                          >
+                            {value}{option.suffix}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+
+                <View style={[styles.settingItem, styles.pomodoroOption]}>
+                  <Text style={styles.settingLabel}>Auto-start Next Interval</Text>
+                  <Switch
+                    value={settings.pomodoro.autoStartNext}
+                    onValueChange={(value) => handlePomodoroChange('autoStartNext', value)}
+                    trackColor={{ false: colors.border, true: colors.primary }}
+                    thumbColor={settings.pomodoro.autoStartNext ? '#FFF' : '#FFF'}
+                  />
+                </View>
+                <Text style={styles.settingDescription}>
+                  When off, the timer waits for you to start each break and work interval
+                </Text>
+              </>
+            )}
+          </View>
+
           {/* Categories */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -635,6 +1142,62 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {/* Block Templates */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <LayoutTemplate size={20} color={colors.secondary} />
+              <Text style={styles.sectionTitle}>Block Templates</Text>
+            </View>
+
+            {templates.length === 0 ? (
+              <Text style={styles.settingDescription}>
+                Save a block as a template from the create screen, or by swiping a block on the Today screen.
+              </Text>
+            ) : (
+              <View style={styles.categoriesList}>
+                {templates.map((template, index) => (
+                  <View key={template.id} style={styles.categoryItem}>
+                    <View style={styles.categoryInfo}>
+                      <View style={[styles.categoryColor, { backgroundColor: template.color }]} />
+                      <View style={styles.templateText}>
+                        <Text style={styles.categoryName} numberOfLines={1}>{template.name}</Text>
+                        <Text style={styles.settingDescription}>{describeTemplate(template)}</Text>
+                      </View>
+                    </View>
+                    <View style={styles.categoryActions}>
+                      <TouchableOpacity
+                        style={styles.categoryActionButton}
+                        onPress={() => handleMoveTemplate(template.id, -1)}
+                        disabled={index === 0}
+                      >
+                        <ChevronUp size={16} color={index === 0 ? colors.border : colors.textSecondary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.categoryActionButton}
+                        onPress={() => handleMoveTemplate(template.id, 1)}
+                        disabled={index === templates.length - 1}
+                      >
+                        <ChevronDown size={16} color={index === templates.length - 1 ? colors.border : colors.textSecondary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.categoryActionButton}
+                        onPress={() => setEditingTemplate(template)}
+                      >
+                        <Edit size={16} color={colors.textSecondary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.categoryActionButton}
+                        onPress={() => handleDeleteTemplate(template)}
+                      >
+                        <Trash2 size={16} color={colors.error} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+
           {/* Data Management */}
           <View style={[styles.section, styles.dataManagementSection]}>
             <View style={styles.sectionHeader}>
@@ -659,6 +1222,66 @@ export default function SettingsScreen() {
               </Text>
             </View>
 
+            {/* Export Backup Button */}
+            <TouchableOpacity 
+              style={[styles.dataButton, styles.exportButton]}
+              onPress={handleExportBackup}
+              disabled={isExporting}
+            >
+              <Download size={16} color="white" />
+              <Text style={styles.dataButtonText}>
+                {isExporting ? 'Exporting Backup...' : 'Export Backup'}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.dataDescription}>
+              Save all blocks, categories, reflections, focus sessions, inbox tasks, block and day templates, settings, and theme to a JSON file.
+            </Text>
+
+            {/* Import Backup Button */}
+            <TouchableOpacity 
+              style={[styles.dataButton, styles.importButton]}
+              onPress={handleImportBackup}
+              disabled={isImporting}
+            >
+              <Upload size={16} color="white" />
+              <Text style={styles.dataButtonText}>
+                {isImporting ? 'Restoring Backup...' : 'Import Backup'}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.dataDescription}>
+              Restore a backup file. You can merge it with your data or replace everything.
+            </Text>
+
+            {/* Export Calendar Button */}
+            <TouchableOpacity 
+              style={[styles.dataButton, styles.calendarExportButton]}
+              onPress={handleExportCalendar}
+              disabled={isExportingCalendar}
+            >
+              <CalendarDays size={16} color="white" />
+              <Text style={styles.dataButtonText}>
+                {isExportingCalendar ? 'Exporting Calendar...' : 'Export to Calendar (.ics)'}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.dataDescription}>
+              Share your time blocks with Google Calendar, Apple Calendar, or Outlook.
+            </Text>
+
+            {/* Import Calendar Button */}
+            <TouchableOpacity 
+              style={[styles.dataButton, styles.calendarImportButton]}
+              onPress={handleImportCalendar}
+              disabled={isImportingCalendar}
+            >
+              <CalendarPlus size={16} color="white" />
+              <Text style={styles.dataButtonText}>
+                {isImportingCalendar ? 'Reading Calendar...' : 'Import from Calendar (.ics)'}
+              </Text>
+            </TouchableOpacity>
+            <Text style={styles.dataDescription}>
+              Turn calendar events into time blocks. You can review overlaps before anything is saved.
+            </Text>
+
             {/* Add Sample Data Button */}
             <TouchableOpacity 
               style={[styles.dataButton, styles.sampleDataButton]}
@@ -701,6 +1324,29 @@ export default function SettingsScreen() {
           </View>
         </View>
       </ScrollView>
+
+      <CalendarExportModal
+        visible={calendarExportBlocks !== null}
+        blocks={calendarExportBlocks ?? []}
+        onCancel={() => setCalendarExportBlocks(null)}
+        onExport={exportCalendarRange}
+      />
+
+      <CalendarImportPreview
+        visible={calendarImport !== null}
+        fileName={calendarImport?.fileName}
+        candidates={calendarImport?.candidates ?? []}
+        onCancel={() => setCalendarImport(null)}
+        onConfirm={handleConfirmCalendarImport}
+      />
+
+      <TemplateEditor
+        visible={editingTemplate !== null}
+        heading="Edit Template"
+        template={editingTemplate}
+        onCancel={() => setEditingTemplate(null)}
+        onSave={handleSaveTemplate}
+      />
     </View>
   );
 }
\ No newline at end of file
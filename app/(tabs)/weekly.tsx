@@ -1,23 +1,61 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import { View, Text, StyleSheet, ScrollView, SafeAreaView, TouchableOpacity, Alert } from 'react-native';
-import { ChevronLeft, ChevronRight, ChartBar as BarChart3, ChartPie as PieChart } from 'lucide-react-native';
+import { ChevronLeft, ChevronRight, ChartBar as BarChart3, ChartPie as PieChart, CircleCheck as CheckCircle, Timer } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
 import MobileHeader from '@/components/MobileHeader';
-import { loadTimeBlocks, saveTimeBlocks } from '@/utils/storage';
+import { loadTimeBlocks, saveTimeBlocks, loadSessions, FocusSessionRecord } from '@/utils/storage';
 import { TimeBlockData } from '@/components/TimeBlock';
+import CopyWeekPreview from '@/components/CopyWeekPreview';
+import WeekGrid from '@/components/WeekGrid';
+import MonthCalendar from '@/components/MonthCalendar';
+import YearHeatmap from '@/components/YearHeatmap';
+import {
+  getWeekStats,
+  getCompletionRate,
+  getMostProductiveDay,
+  getFavoriteStartHour,
+  getLongestCompletedStreak,
+  getFocusedMinutesByDate,
+} from '@/utils/analytics';
+import { formatDateString, parseDateString, getDateRange } from '@/utils/date';
 import { useTheme } from '@/contexts/ThemeContext';
 
 export default function WeeklyScreen() {
   const [blocks, setBlocks] = useState<TimeBlockData[]>([]);
+  const [sessions, setSessions] = useState<FocusSessionRecord[]>([]);
   const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [showCopyWeek, setShowCopyWeek] = useState(false);
+  const [viewMode, setViewMode] = useState<'week' | 'month' | 'year'>('week');
   const { colors } = useTheme();
 
-  useEffect(() => {
-    loadData();
-  }, []);
+  // Blocks can be edited from the grid, so reload whenever the screen comes back into focus
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [])
+  );
 
   const loadData = async () => {
-    const savedBlocks = await loadTimeBlocks();
+    const [savedBlocks, savedSessions] = await Promise.all([loadTimeBlocks(), loadSessions()]);
     setBlocks(savedBlocks);
+    setSessions(savedSessions);
+  };
+
+  // Helper function to format minutes as hours, keeping one decimal for short totals
+  const formatHours = (minutes: number) => {
+    const hours = minutes / 60;
+    return `${hours >= 10 ? Math.round(hours) : Math.round(hours * 10) / 10}h`;
+  };
+
+  // Helper function to format an hour of the day as a one-hour range
+  const formatHourRange = (hour: number) => {
+    const format = (h: number) => {
+      const normalized = h % 24;
+      const period = normalized >= 12 ? 'PM' : 'AM';
+      return `${normalized % 12 === 0 ? 12 : normalized % 12}:00 ${period}`;
+    };
+    return `${format(hour)} - ${format(hour + 1)}`;
   };
 
   const getWeekDates = (date: Date) => {
@@ -35,40 +73,42 @@ export default function WeeklyScreen() {
     return weekDates;
   };
 
-  const navigateWeek = (direction: 'prev' | 'next') => {
-    const newWeek = new Date(currentWeek);
-    newWeek.setDate(currentWeek.getDate() + (direction === 'next' ? 7 : -7));
-    setCurrentWeek(newWeek);
+  // Months and years move from their first day, so a 31st never spills into the month after
+  const navigatePeriod = (direction: 'prev' | 'next') => {
+    const step = direction === 'next' ? 1 : -1;
+    if (viewMode === 'month') {
+      setCurrentWeek(new Date(currentWeek.getFullYear(), currentWeek.getMonth() + step, 1));
+    } else if (viewMode === 'year') {
+      setCurrentWeek(new Date(currentWeek.getFullYear() + step, 0, 1));
+    } else {
+      const newWeek = new Date(currentWeek);
+      newWeek.setDate(currentWeek.getDate() + step * 7);
+      setCurrentWeek(newWeek);
+    }
   };
 
-  const handleCopyThisWeek = async () => {
+  // Open a day from the month or year view on the Today screen
+  const handleOpenDay = (date: string) => {
+    router.navigate({ pathname: '/', params: { date } });
+  };
+
+  // Repeating occurrences are opened by their own id and date, so the editor can ask which ones to change
+  const handleGridBlockPress = (block: TimeBlockData) => {
+    router.push({ pathname: '/create-block', params: { blockId: block.id, date: block.date } });
+  };
+
+  const handleGridSlotPress = (date: string, startTime: string) => {
+    router.push({ pathname: '/create-block', params: { date, time: startTime } });
+  };
+
+  const handleConfirmCopyWeek = async (copiedBlocks: TimeBlockData[]) => {
+    setShowCopyWeek(false);
     try {
-      Alert.alert(
-        'Copy This Week',
-        'This will duplicate all time blocks from this week to next week. Continue?',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          { 
-            text: 'Copy', 
-            onPress: async () => {
-              // Create copies of all blocks with new IDs
-              const copiedBlocks = blocks.map(block => ({
-                ...block,
-                id: `${Date.now()}-${Math.random()}`,
-                isActive: false,
-                isCompleted: false,
-                progress: 0,
-              }));
+      const existingBlocks = await loadTimeBlocks();
+      await saveTimeBlocks([...existingBlocks, ...copiedBlocks]);
+      await loadData();
 
-              const updatedBlocks = [...blocks, ...copiedBlocks];
-              await saveTimeBlocks(updatedBlocks);
-              await loadData();
-              
-              Alert.alert('Success', `${copiedBlocks.length} blocks have been copied to next week!`);
-            }
-          },
-        ]
-      );
+      Alert.alert('Success', `${copiedBlocks.length} block${copiedBlocks.length === 1 ? ' has' : 's have'} been copied!`);
     } catch (error) {
       console.error('Error copying week:', error);
       Alert.alert('Error', 'Failed to copy this week. Please try again.');
@@ -76,16 +116,17 @@ export default function WeeklyScreen() {
   };
 
   const handleExportSummary = () => {
-    const stats = getWeekStats();
     const summary = `
-Weekly Summary:
-- Total Hours Planned: ${Math.round(stats.totalHours)}h
-- Completion Rate: ${Math.round((stats.completedBlocks / stats.totalBlocks) * 100)}%
+Weekly Summary (${weekRange}):
+- Hours Planned: ${formatHours(stats.plannedMinutes)}
+- Hours Completed: ${formatHours(stats.completedMinutes)}${stats.hasFocusData ? `
+- Time Focused: ${formatHours(stats.focusedMinutes)}` : ''}
+- Completion Rate: ${getCompletionRate(stats.completedBlocks, stats.totalBlocks)}%
 - Blocks Completed: ${stats.completedBlocks}/${stats.totalBlocks}
 
 Category Breakdown:
-${Object.entries(stats.categoryStats).map(([category, hours]) => 
-  `- ${category}: ${Math.round(hours)}h`
+${stats.categories.map(category =>
+  `- ${category.category}: ${formatHours(category.completedMinutes)} of ${formatHours(category.plannedMinutes)}`
 ).join('\n')}
     `.trim();
 
@@ -105,34 +146,29 @@ ${Object.entries(stats.categoryStats).map(([category, hours]) =>
     );
   };
 
-  const getWeekStats = () => {
-    const totalBlocks = blocks.length * 7; // Assuming same blocks for each day
-    const completedBlocks = blocks.filter(b => b.isCompleted).length * 7;
-    const totalHours = blocks.reduce((acc, block) => {
-      const start = new Date(`2000-01-01 ${block.startTime}`);
-      const end = new Date(`2000-01-01 ${block.endTime}`);
-      return acc + (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-    }, 0) * 7;
-
-    const categoryStats = blocks.reduce((acc, block) => {
-      const duration = (() => {
-        const start = new Date(`2000-01-01 ${block.startTime}`);
-        const end = new Date(`2000-01-01 ${block.endTime}`);
-        return (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-      })();
-      
-      acc[block.category] = (acc[block.category] || 0) + duration * 7;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return { totalBlocks, completedBlocks, totalHours, categoryStats };
-  };
-
   const weekDates = getWeekDates(currentWeek);
-  const stats = getWeekStats();
+  const weekDateStrings = weekDates.map(formatDateString);
+  const stats = getWeekStats(blocks, sessions, weekDateStrings);
+  const mostProductiveDay = getMostProductiveDay(stats);
+  const favoriteStartHour = getFavoriteStartHour(stats);
+  const completedStreak = getLongestCompletedStreak(stats);
   const weekRange = `${weekDates[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${weekDates[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
 
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const monthDates = getDateRange(
+    formatDateString(new Date(currentWeek.getFullYear(), currentWeek.getMonth(), 1)),
+    formatDateString(new Date(currentWeek.getFullYear(), currentWeek.getMonth() + 1, 0))
+  );
+  const periodStats = viewMode === 'month' ? getWeekStats(blocks, sessions, monthDates) : stats;
+  const periodLabel = viewMode === 'month'
+    ? currentWeek.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : viewMode === 'year'
+    ? `${currentWeek.getFullYear()}`
+    : weekRange;
+  const viewModes: { value: typeof viewMode; label: string }[] = [
+    { value: 'week', label: 'Week' },
+    { value: 'month', label: 'Month' },
+    { value: 'year', label: 'Year' },
+  ];
 
   const styles = StyleSheet.create({
     container: {
@@ -146,6 +182,31 @@ ${Object.entries(stats.categoryStats).map(([category, hours]) =>
       paddingHorizontal: 20,
       paddingTop: 16,
     },
+    viewSwitcher: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 2,
+    },
+    viewSwitcherButton: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderRadius: 6,
+    },
+    viewSwitcherButtonActive: {
+      backgroundColor: colors.primary,
+    },
+    viewSwitcherText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    viewSwitcherTextActive: {
+      color: 'white',
+    },
     weekNavigation: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -203,42 +264,11 @@ ${Object.entries(stats.categoryStats).map(([category, hours]) =>
       color: colors.text,
       marginBottom: 16,
     },
-    calendarGrid: {
-      flexDirection: 'row',
-      backgroundColor: colors.surface,
-      borderRadius: 12,
-      padding: 16,
-      borderWidth: 1,
-      borderColor: colors.border,
-    },
-    dayColumn: {
-      flex: 1,
-      alignItems: 'center',
-    },
-    dayName: {
+    gridHint: {
       fontSize: 12,
-      fontWeight: '600',
       color: colors.textSecondary,
-      marginBottom: 4,
-    },
-    dayNumber: {
-      fontSize: 16,
-      fontWeight: '700',
-      color: colors.text,
-      marginBottom: 12,
-    },
-    dayBlocks: {
-      gap: 4,
-    },
-    miniBlock: {
-      width: 24,
-      height: 20,
-      borderRadius: 3,
-      overflow: 'hidden',
-    },
-    miniBlockFill: {
-      width: '100%',
-      borderRadius: 3,
+      textAlign: 'center',
+      marginTop: 8,
     },
     categoryContainer: {
       marginBottom: 24,
@@ -278,6 +308,10 @@ ${Object.entries(stats.categoryStats).map(([category, hours]) =>
       height: '100%',
       borderRadius: 3,
     },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
     insightsContainer: {
       marginBottom: 24,
     },
@@ -344,139 +378,203 @@ ${Object.entries(stats.categoryStats).map(([category, hours]) =>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.content}>
-          {/* Week Navigation */}
+          {/* View Switcher */}
+          <View style={styles.viewSwitcher}>
+            {viewModes.map(mode => (
+              <TouchableOpacity
+                key={mode.value}
+                style={[styles.viewSwitcherButton, viewMode === mode.value && styles.viewSwitcherButtonActive]}
+                onPress={() => setViewMode(mode.value)}
+              >
+                <Text style={[styles.viewSwitcherText, viewMode === mode.value && styles.viewSwitcherTextActive]}>
+                  {mode.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Period Navigation */}
           <View style={styles.weekNavigation}>
             <TouchableOpacity 
               style={styles.navButton}
-              onPress={() => navigateWeek('prev')}
+              onPress={() => navigatePeriod('prev')}
             >
               <ChevronLeft size={20} color={colors.textSecondary} />
             </TouchableOpacity>
             
-            <Text style={styles.weekRange}>{weekRange}</Text>
+            <Text style={styles.weekRange}>{periodLabel}</Text>
             
             <TouchableOpacity 
               style={styles.navButton}
-              onPress={() => navigateWeek('next')}
+              onPress={() => navigatePeriod('next')}
             >
               <ChevronRight size={20} color={colors.textSecondary} />
             </TouchableOpacity>
           </View>
 
-          {/* Week Stats */}
-          <View style={styles.statsGrid}>
-            <View style={styles.statCard}>
-              <BarChart3 size={24} color={colors.primary} />
-              <Text style={styles.statNumber}>{Math.round(stats.totalHours)}h</Text>
-              <Text style={styles.statLabel}>Total Planned</Text>
+          {/* Period Stats */}
+          {viewMode !== 'year' && (
+            <>
+              <View style={styles.statsGrid}>
+                <View style={styles.statCard}>
+                  <BarChart3 size={24} color={colors.primary} />
+                  <Text style={styles.statNumber}>{formatHours(periodStats.plannedMinutes)}</Text>
+                  <Text style={styles.statLabel}>Total Planned</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <PieChart size={24} color={colors.secondary} />
+                  <Text style={styles.statNumber}>
+                    {getCompletionRate(periodStats.completedBlocks, periodStats.totalBlocks)}%
+                  </Text>
+                  <Text style={styles.statLabel}>Completion</Text>
+                </View>
+              </View>
+              <View style={styles.statsGrid}>
+                <View style={styles.statCard}>
+                  <CheckCircle size={24} color={colors.success} />
+                  <Text style={styles.statNumber}>{formatHours(periodStats.completedMinutes)}</Text>
+                  <Text style={styles.statLabel}>Completed</Text>
+                </View>
+                <View style={styles.statCard}>
+                  <Timer size={24} color={colors.accent} />
+                  <Text style={styles.statNumber}>
+                    {periodStats.hasFocusData ? formatHours(periodStats.focusedMinutes) : '—'}
+                  </Text>
+                  <Text style={styles.statLabel}>Focused</Text>
+                </View>
+              </View>
+            </>
+          )}
+
+          {/* Weekly Calendar Grid */}
+          {viewMode === 'week' && (
+            <View style={styles.calendarContainer}>
+              <Text style={styles.sectionTitle}>Week at a Glance</Text>
+              <WeekGrid
+                blocks={blocks}
+                dates={weekDateStrings}
+                onBlockPress={handleGridBlockPress}
+                onSlotPress={handleGridSlotPress}
+              />
+              <Text style={styles.gridHint}>Tap a block to edit it, or an empty slot to add one</Text>
             </View>
-            <View style={styles.statCard}>
-              <PieChart size={24} color={colors.secondary} />
-              <Text style={styles.statNumber}>
-                {Math.round((stats.completedBlocks / stats.totalBlocks) * 100)}%
-              </Text>
-              <Text style={styles.statLabel}>Completion</Text>
+          )}
+
+          {/* Month Calendar */}
+          {viewMode === 'month' && (
+            <View style={styles.calendarContainer}>
+              <Text style={styles.sectionTitle}>Planned vs Completed</Text>
+              <MonthCalendar days={periodStats.days} onDayPress={handleOpenDay} />
+              <Text style={styles.gridHint}>Tap a day to open it on Today</Text>
             </View>
-          </View>
+          )}
 
-          {/* Weekly Calendar Grid */}
-          <View style={styles.calendarContainer}>
-            <Text style={styles.sectionTitle}>Week at a Glance</Text>
-            <View style={styles.calendarGrid}>
-              {weekDates.map((date, index) => (
-                <View key={index} style={styles.dayColumn}>
-                  <Text style={styles.dayName}>{dayNames[index]}</Text>
-                  <Text style={styles.dayNumber}>{date.getDate()}</Text>
-                  
-                  <View style={styles.dayBlocks}>
-                    {blocks.slice(0, 4).map((block, blockIndex) => (
-                      <View 
-                        key={blockIndex}
-                        style={[
-                          styles.miniBlock, 
-                          { backgroundColor: block.color + '40' }
-                        ]}
-                      >
-                        <View 
-                          style={[
-                            styles.miniBlockFill, 
-                            { 
-                              backgroundColor: block.color,
-                              height: block.isCompleted ? '100%' : `${block.progress || 0}%`
-                            }
-                          ]} 
-                        />
-                      </View>
-                    ))}
-                  </View>
-                </View>
-              ))}
+          {/* Year Heatmap */}
+          {viewMode === 'year' && (
+            <View style={styles.calendarContainer}>
+              <Text style={styles.sectionTitle}>Focus Activity</Text>
+              <YearHeatmap
+                year={currentWeek.getFullYear()}
+                focusedByDate={getFocusedMinutesByDate(sessions)}
+                onDayPress={handleOpenDay}
+              />
+              <Text style={styles.gridHint}>Tap a day to open it on Today</Text>
             </View>
-          </View>
+          )}
 
           {/* Category Breakdown */}
-          <View style={styles.categoryContainer}>
-            <Text style={styles.sectionTitle}>Time by Category</Text>
-            {Object.entries(stats.categoryStats).map(([category, hours]) => {
-              const percentage = (hours / stats.totalHours) * 100;
-              const categoryColor = blocks.find(b => b.category === category)?.color || colors.textSecondary;
+          {viewMode !== 'year' && (
+            <View style={styles.categoryContainer}>
+              <Text style={styles.sectionTitle}>Time by Category</Text>
+              {periodStats.categories.length === 0 && (
+                <Text style={styles.emptyText}>No blocks planned this {viewMode}</Text>
+              )}
+              {periodStats.categories.map(category => {
+                const percentage = periodStats.plannedMinutes > 0 ? (category.plannedMinutes / periodStats.plannedMinutes) * 100 : 0;
               
-              return (
-                <View key={category} style={styles.categoryItem}>
-                  <View style={styles.categoryHeader}>
-                    <View style={[styles.categoryDot, { backgroundColor: categoryColor }]} />
-                    <Text style={styles.categoryName}>{category}</Text>
-                    <Text style={styles.categoryHours}>{Math.round(hours)}h</Text>
-                  </View>
-                  <View style={styles.categoryBar}>
-                    <View 
-                      style={[
-                        styles.categoryBarFill, 
-                        { 
-                          width: `${percentage}%`,
-                          backgroundColor: categoryColor 
-                        }
-                      ]} 
-                    />
+                return (
+                  <View key={category.category} style={styles.categoryItem}>
+                    <View style={styles.categoryHeader}>
+                      <View style={[styles.categoryDot, { backgroundColor: category.color }]} />
+                      <Text style={styles.categoryName}>{category.category}</Text>
+                      <Text style={styles.categoryHours}>
+                        {formatHours(category.completedMinutes)} / {formatHours(category.plannedMinutes)}
+                        {periodStats.hasFocusData ? ` · ${formatHours(category.focusedMinutes)} focused` : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.categoryBar}>
+                      <View 
+                        style={[
+                          styles.categoryBarFill, 
+                          { 
+                            width: `${percentage}%`,
+                            backgroundColor: category.color 
+                          }
+                        ]} 
+                      />
+                    </View>
                   </View>
-                </View>
-              );
-            })}
-          </View>
-
-          {/* Weekly Insights */}
-          <View style={styles.insightsContainer}>
-            <Text style={styles.sectionTitle}>Weekly Insights</Text>
-            <View style={styles.insightCard}>
-              <Text style={styles.insightTitle}>🎯 Most Productive Day</Text>
-              <Text style={styles.insightText}>Tuesday - 6 blocks completed</Text>
-            </View>
-            <View style={styles.insightCard}>
-              <Text style={styles.insightTitle}>⚡ Favorite Focus Time</Text>
-              <Text style={styles.insightText}>9:00 AM - 11:00 AM</Text>
-            </View>
-            <View style={styles.insightCard}>
-              <Text style={styles.insightTitle}>📈 Improvement Streak</Text>
-              <Text style={styles.insightText}>3 days of hitting your goals!</Text>
+                );
+              })}
             </View>
-          </View>
+          )}
 
-          {/* Action Buttons */}
-          <View style={styles.actionsContainer}>
-            <TouchableOpacity style={styles.actionButton} onPress={handleCopyThisWeek}>
-              <Text style={styles.actionButtonText}>Copy This Week</Text>
-            </TouchableOpacity>
-            <TouchableOpacity 
-              style={[styles.actionButton, styles.secondaryAction]}
-              onPress={handleExportSummary}
-            >
-              <Text style={[styles.actionButtonText, styles.secondaryActionText]}>
-                Export Summary
-              </Text>
-            </TouchableOpacity>
-          </View>
+          {viewMode === 'week' && (
+            <>
+              {/* Weekly Insights */}
+              <View style={styles.insightsContainer}>
+                <Text style={styles.sectionTitle}>Weekly Insights</Text>
+                <View style={styles.insightCard}>
+                  <Text style={styles.insightTitle}>🎯 Most Productive Day</Text>
+                  <Text style={styles.insightText}>
+                    {mostProductiveDay
+                      ? `${parseDateString(mostProductiveDay.date).toLocaleDateString('en-US', { weekday: 'long' })} - ${mostProductiveDay.completedBlocks} ${mostProductiveDay.completedBlocks === 1 ? 'block' : 'blocks'} completed`
+                      : 'No blocks completed yet'}
+                  </Text>
+                </View>
+                <View style={styles.insightCard}>
+                  <Text style={styles.insightTitle}>⚡ Favorite Focus Time</Text>
+                  <Text style={styles.insightText}>
+                    {favoriteStartHour !== null ? formatHourRange(favoriteStartHour) : 'Complete a block to find out'}
+                  </Text>
+                </View>
+                <View style={styles.insightCard}>
+                  <Text style={styles.insightTitle}>📈 Improvement Streak</Text>
+                  <Text style={styles.insightText}>
+                    {completedStreak > 0
+                      ? `${completedStreak} ${completedStreak === 1 ? 'day' : 'days'} in a row with every block completed`
+                      : 'Complete every block in a day to start a streak'}
+                  </Text>
+                </View>
+              </View>
+
+              {/* Action Buttons */}
+              <View style={styles.actionsContainer}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setShowCopyWeek(true)}>
+                  <Text style={styles.actionButtonText}>Copy This Week</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={[styles.actionButton, styles.secondaryAction]}
+                  onPress={handleExportSummary}
+                >
+                  <Text style={[styles.actionButtonText, styles.secondaryActionText]}>
+                    Export Summary
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
         </View>
       </ScrollView>
+
+      <CopyWeekPreview
+        visible={showCopyWeek}
+        blocks={blocks}
+        startDate={weekDateStrings[0]}
+        endDate={weekDateStrings[6]}
+        onCancel={() => setShowCopyWeek(false)}
+        onConfirm={handleConfirmCopyWeek}
+      />
     </SafeAreaView>
   );
 }
\ No newline at end of file
@@ -1,28 +1,51 @@
 import 'react-native-gesture-handler';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { Platform } from 'react-native';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { FocusSessionProvider } from '@/contexts/FocusSessionContext';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ChoicePromptHost from '@/components/ChoicePromptHost';
+import { runMigrations } from '@/utils/migrations';
 
 export default function RootLayout() {
+  const [isStorageReady, setIsStorageReady] = useState(false);
   useFrameworkReady();
 
+  // Screens read from storage on mount, so hold rendering until data is migrated
+  useEffect(() => {
+    runMigrations()
+      .then(result => {
+        if (!result.success) {
+          console.error(`Storage migration from v${result.fromVersion} failed, data was restored`);
+        }
+      })
+      .catch(error => console.error('Error running migrations:', error))
+      .finally(() => setIsStorageReady(true));
+  }, []);
+
+  if (!isStorageReady) {
+    return null;
+  }
+
   return (
     <ThemeProvider>
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar 
-          style="auto" 
-          backgroundColor="transparent"
-          translucent={Platform.OS === 'android'}
-        />
-      </GestureHandlerRootView>
+      <FocusSessionProvider>
+        <GestureHandlerRootView style={{ flex: 1 }}>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <StatusBar 
+            style="auto" 
+            backgroundColor="transparent"
+            translucent={Platform.OS === 'android'}
+          />
+          <ChoicePromptHost />
+        </GestureHandlerRootView>
+      </FocusSessionProvider>
     </ThemeProvider>
   );
 }
\ No newline at end of file
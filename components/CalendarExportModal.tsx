@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { X, ChevronDown } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TimeBlockData } from '@/components/TimeBlock';
+import DatePicker from '@/components/DatePicker';
+import { getBlocksForExport, getCalendarExportRange, CalendarExportPreset } from '@/utils/ical';
+import { formatRelativeDate } from '@/utils/date';
+
+interface CalendarExportModalProps {
+  visible: boolean;
+  blocks: TimeBlockData[]; // Stored blocks, used for the preview count and the picker's dots
+  onCancel: () => void;
+  onExport: (range?: { startDate: string; endDate: string }) => void; // No range exports every block
+}
+
+type RangeField = 'start' | 'end';
+
+const PRESETS: { preset: CalendarExportPreset; label: string }[] = [
+  { preset: 'week', label: 'This Week' },
+  { preset: 'next30', label: 'Next 30 Days' },
+  { preset: 'all', label: 'All Blocks' },
+];
+
+export default function CalendarExportModal({ visible, blocks, onCancel, onExport }: CalendarExportModalProps) {
+  const { colors } = useTheme();
+  const [range, setRange] = useState(() => getCalendarExportRange('week')!);
+  const [isAllBlocks, setIsAllBlocks] = useState(false);
+  const [pickingField, setPickingField] = useState<RangeField | null>(null);
+
+  // Every export starts out as this week
+  useEffect(() => {
+    if (visible) {
+      setRange(getCalendarExportRange('week')!);
+      setIsAllBlocks(false);
+      setPickingField(null);
+    }
+  }, [visible]);
+
+  const exportCount = isAllBlocks ? blocks.length : getBlocksForExport(blocks, range.startDate, range.endDate).length;
+
+  const selectPreset = (preset: CalendarExportPreset) => {
+    const presetRange = getCalendarExportRange(preset);
+    setIsAllBlocks(!presetRange);
+    if (presetRange) setRange(presetRange);
+  };
+
+  const isPresetSelected = (preset: CalendarExportPreset) => {
+    const presetRange = getCalendarExportRange(preset);
+    if (!presetRange) return isAllBlocks;
+    return !isAllBlocks && presetRange.startDate === range.startDate && presetRange.endDate === range.endDate;
+  };
+
+  // Picking a start after the end (or an end before the start) moves the other date along
+  const handleSelectDate = (date: string) => {
+    setIsAllBlocks(false);
+    if (pickingField === 'start') {
+      setRange({ startDate: date, endDate: date > range.endDate ? date : range.endDate });
+    } else {
+      setRange({ startDate: date < range.startDate ? date : range.startDate, endDate: date });
+    }
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 24,
+      width: '100%',
+      maxWidth: 500,
+      maxHeight: '90%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+      flex: 1,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 16,
+      lineHeight: 18,
+    },
+    presetRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 16,
+    },
+    presetButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    selectedPreset: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    presetText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    selectedPresetText: {
+      color: 'white',
+    },
+    fieldRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    field: {
+      flex: 1,
+    },
+    fieldLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 6,
+    },
+    fieldButton: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    disabledField: {
+      opacity: 0.5,
+    },
+    fieldValue: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: colors.text,
+      flex: 1,
+    },
+    countText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 16,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 20,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: 48,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    confirmButton: {
+      backgroundColor: colors.primary,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  const renderField = (field: RangeField, label: string, value: string) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TouchableOpacity
+        style={[styles.fieldButton, isAllBlocks && styles.disabledField]}
+        onPress={() => setPickingField(field)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.fieldValue} numberOfLines={1}>{formatRelativeDate(value)}</Text>
+        <ChevronDown size={18} color={colors.textSecondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>📅 Export to Calendar</Text>
+            <TouchableOpacity onPress={onCancel}>
+              <X size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.subtitle}>
+            Choose which blocks to export as an .ics file. Repeating blocks are exported as repeating events.
+          </Text>
+
+          <View style={styles.presetRow}>
+            {PRESETS.map(({ preset, label }) => (
+              <TouchableOpacity
+                key={preset}
+                style={[styles.presetButton, isPresetSelected(preset) && styles.selectedPreset]}
+                onPress={() => selectPreset(preset)}
+              >
+                <Text style={[styles.presetText, isPresetSelected(preset) && styles.selectedPresetText]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.fieldRow}>
+            {renderField('start', 'From', range.startDate)}
+            {renderField('end', 'To', range.endDate)}
+          </View>
+
+          <Text style={styles.countText}>
+            {exportCount} {exportCount === 1 ? 'block' : 'blocks'} will be exported
+          </Text>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton]}
+              onPress={() => onExport(isAllBlocks ? undefined : range)}
+            >
+              <Text style={[styles.buttonText, { color: 'white' }]}>Export</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      <DatePicker
+        visible={pickingField !== null}
+        value={pickingField === 'end' ? range.endDate : range.startDate}
+        title={pickingField === 'end' ? 'Export Until' : 'Export From'}
+        blocks={blocks}
+        onClose={() => setPickingField(null)}
+        onSelect={handleSelectDate}
+      />
+    </Modal>
+  );
+}
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { X, Check, TriangleAlert as AlertTriangle, Repeat, Download } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { CalendarImportCandidate } from '@/utils/ical';
+import { describeRepeatRule } from '@/utils/recurrence';
+import { parseDateString } from '@/utils/date';
+
+interface CalendarImportPreviewProps {
+  visible: boolean;
+  fileName?: string;
+  candidates: CalendarImportCandidate[];
+  onCancel: () => void;
+  onConfirm: (blocks: TimeBlockData[]) => void;
+}
+
+// Overlapping and past events start unselected so they are skipped unless picked
+const getDefaultSelection = (candidates: CalendarImportCandidate[]) => {
+  return new Set(
+    candidates
+      .map((candidate, index) => (candidate.overlaps.length === 0 && !candidate.isPast ? index : -1))
+      .filter(index => index !== -1)
+  );
+};
+
+export default function CalendarImportPreview({ visible, fileName, candidates, onCancel, onConfirm }: CalendarImportPreviewProps) {
+  const { colors } = useTheme();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setSelected(getDefaultSelection(candidates));
+  }, [candidates]);
+
+  const overlapCount = candidates.filter(candidate => candidate.overlaps.length > 0).length;
+
+  const toggleCandidate = (index: number) => {
+    const updated = new Set(selected);
+    if (updated.has(index)) {
+      updated.delete(index);
+    } else {
+      updated.add(index);
+    }
+    setSelected(updated);
+  };
+
+  const selectAll = () => setSelected(new Set(candidates.map((_, index) => index)));
+
+  const skipOverlapping = () => {
+    setSelected(new Set([...selected].filter(index => candidates[index].overlaps.length === 0)));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(candidates.filter((_, index) => selected.has(index)).map(candidate => candidate.block));
+  };
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const formatDate = (dateString: string) => {
+    return parseDateString(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 24,
+      width: '100%',
+      maxWidth: 500,
+      maxHeight: '90%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+      flex: 1,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 16,
+      lineHeight: 18,
+    },
+    toolbar: {
+      flexDirection: 'row',
+      gap: 8,
+      marginBottom: 12,
+    },
+    toolbarButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    toolbarButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border + '60',
+    },
+    checkbox: {
+      width: 22,
+      height: 22,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginTop: 2,
+    },
+    checkboxSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    rowContent: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 2,
+    },
+    rowMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: 4,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    categoryDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+    },
+    categoryText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      fontWeight: '500',
+    },
+    flag: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      marginTop: 4,
+    },
+    flagText: {
+      fontSize: 11,
+      fontWeight: '600',
+      flex: 1,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 20,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 8,
+      minHeight: 48,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    importButton: {
+      backgroundColor: colors.primary,
+      opacity: selected.size === 0 ? 0.5 : 1,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Import Calendar</Text>
+            <TouchableOpacity onPress={onCancel}>
+              <X size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.subtitle}>
+            {fileName ? `${fileName}: ` : ''}{candidates.length} events found
+            {overlapCount > 0 ? `, ${overlapCount} overlap existing blocks` : ''}.
+            {'\n'}Overlapping and past events are skipped unless you select them.
+          </Text>
+
+          {candidates.length > 0 && (
+            <View style={styles.toolbar}>
+              <TouchableOpacity style={styles.toolbarButton} onPress={selectAll}>
+                <Text style={styles.toolbarButtonText}>Select All</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={skipOverlapping}>
+                <Text style={styles.toolbarButtonText}>Skip Overlapping</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={() => setSelected(new Set())}>
+                <Text style={styles.toolbarButtonText}>None</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            {candidates.length === 0 && (
+              <Text style={styles.emptyText}>No events to import.</Text>
+            )}
+            {candidates.map((candidate, index) => {
+              const { block } = candidate;
+              const isSelected = selected.has(index);
+
+              return (
+                <TouchableOpacity
+                  key={`${block.id}-${index}`}
+                  style={styles.row}
+                  onPress={() => toggleCandidate(index)}
+                  activeOpacity={0.7}
+                >
+                  <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                    {isSelected && <Check size={14} color="white" strokeWidth={3} />}
+                  </View>
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>{block.title}</Text>
+                    <Text style={styles.rowMeta}>
+                      {formatDate(block.date)} · {candidate.isAllDay
+                        ? 'All day'
+                        : `${formatTime12Hour(block.startTime)} - ${formatTime12Hour(block.endTime)}`}
+                      {candidate.isPast ? ' · Past' : ''}
+                    </Text>
+                    <View style={styles.categoryRow}>
+                      <View style={[styles.categoryDot, { backgroundColor: block.color }]} />
+                      <Text style={styles.categoryText}>{block.category}</Text>
+                    </View>
+                    {block.repeat && (
+                      <View style={styles.flag}>
+                        <Repeat size={12} color={colors.textSecondary} />
+                        <Text style={[styles.flagText, { color: colors.textSecondary }]}>
+                          {describeRepeatRule(block.repeat)}
+                        </Text>
+                      </View>
+                    )}
+                    {candidate.overlaps.length > 0 && (
+                      <View style={styles.flag}>
+                        <AlertTriangle size={12} color={colors.warning} />
+                        <Text style={[styles.flagText, { color: colors.warning }]} numberOfLines={2}>
+                          Overlaps {candidate.overlaps.map(overlap => `"${overlap.title}"`).join(', ')}
+                        </Text>
+                      </View>
+                    )}
+                    {candidate.warnings.map(warning => (
+                      <View key={warning} style={styles.flag}>
+                        <AlertTriangle size={12} color={colors.textSecondary} />
+                        <Text style={[styles.flagText, { color: colors.textSecondary }]}>{warning}</Text>
+                      </View>
+                    ))}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.importButton]}
+              onPress={handleConfirm}
+              disabled={selected.size === 0}
+            >
+              <Download size={16} color="white" />
+              <Text style={[styles.buttonText, { color: 'white' }]}>Import {selected.size}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
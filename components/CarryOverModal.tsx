@@ -0,0 +1,297 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { X, CornerDownRight } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import ChoicePromptHost from '@/components/ChoicePromptHost';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { CarryOverItem, CarryOverTarget, getCarryOverKey } from '@/utils/carryOver';
+import { formatRelativeDate } from '@/utils/date';
+
+interface CarryOverModalProps {
+  visible: boolean;
+  title: string;
+  items: CarryOverItem[];
+  laterBlocks: TimeBlockData[]; // Blocks later today that can take tasks
+  onCancel: () => void;
+  onConfirm: (targets: Record<string, CarryOverTarget>) => void;
+}
+
+type TargetType = CarryOverTarget['type'];
+
+export default function CarryOverModal({ visible, title, items, laterBlocks, onCancel, onConfirm }: CarryOverModalProps) {
+  const { colors } = useTheme();
+  const [targets, setTargets] = useState<Record<string, CarryOverTarget>>({});
+
+  // Every task starts out headed for the inbox
+  useEffect(() => {
+    if (visible) {
+      setTargets(Object.fromEntries(items.map(item => [getCarryOverKey(item), { type: 'inbox' } as CarryOverTarget])));
+    }
+  }, [visible, items]);
+
+  const targetOptions: { type: TargetType; label: string }[] = [
+    ...(laterBlocks.length > 0 ? [{ type: 'later' as const, label: 'Later Today' }] : []),
+    { type: 'tomorrow', label: 'Tomorrow' },
+    { type: 'inbox', label: 'Inbox' },
+    { type: 'keep', label: 'Leave' },
+  ];
+
+  // Helper function to build a target of the given type, picking the first later block by default
+  const createTarget = (type: TargetType): CarryOverTarget => {
+    return type === 'later' ? { type, blockId: laterBlocks[0].id } : { type };
+  };
+
+  const setTarget = (key: string, target: CarryOverTarget) => {
+    setTargets({ ...targets, [key]: target });
+  };
+
+  const setAllTargets = (type: TargetType) => {
+    setTargets(Object.fromEntries(items.map(item => [getCarryOverKey(item), createTarget(type)])));
+  };
+
+  const movingCount = Object.values(targets).filter(target => target.type !== 'keep').length;
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 24,
+      width: '100%',
+      maxWidth: 500,
+      maxHeight: '90%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+      flex: 1,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 12,
+      lineHeight: 18,
+    },
+    toolbar: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    toolbarButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    toolbarButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    row: {
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border + '60',
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 2,
+    },
+    rowMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    optionButton: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    selectedOption: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    optionText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    selectedOptionText: {
+      color: 'white',
+    },
+    blockOptions: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 6,
+      marginTop: 8,
+    },
+    blockOptionList: {
+      flex: 1,
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    selectedBlockOption: {
+      backgroundColor: colors.secondary,
+      borderColor: colors.secondary,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 20,
+    },
+    button: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: 48,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    confirmButton: {
+      backgroundColor: colors.primary,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onCancel}>
+              <X size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.subtitle}>
+            {items.length} {items.length === 1 ? 'task wasn\'t' : 'tasks weren\'t'} ticked off. Choose where each one goes.
+            Moved tasks keep a link to the block they came from.
+          </Text>
+
+          <View style={styles.toolbar}>
+            {targetOptions.filter(option => option.type !== 'keep').map(option => (
+              <TouchableOpacity key={option.type} style={styles.toolbarButton} onPress={() => setAllTargets(option.type)}>
+                <Text style={styles.toolbarButtonText}>All {option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            {items.map(item => {
+              const key = getCarryOverKey(item);
+              const target = targets[key] ?? { type: 'inbox' };
+
+              return (
+                <View key={key} style={styles.row}>
+                  <Text style={styles.rowTitle}>{item.task.text}</Text>
+                  <Text style={styles.rowMeta}>
+                    {item.block.title} · {formatRelativeDate(item.block.date)}
+                  </Text>
+
+                  <View style={styles.optionRow}>
+                    {targetOptions.map(option => (
+                      <TouchableOpacity
+                        key={option.type}
+                        style={[styles.optionButton, target.type === option.type && styles.selectedOption]}
+                        onPress={() => setTarget(key, createTarget(option.type))}
+                      >
+                        <Text style={[styles.optionText, target.type === option.type && styles.selectedOptionText]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {target.type === 'later' && (
+                    <View style={styles.blockOptions}>
+                      <CornerDownRight size={14} color={colors.textSecondary} style={{ marginTop: 6 }} />
+                      <View style={styles.blockOptionList}>
+                        {laterBlocks.map(block => (
+                          <TouchableOpacity
+                            key={block.id}
+                            style={[styles.optionButton, target.blockId === block.id && styles.selectedBlockOption]}
+                            onPress={() => setTarget(key, { type: 'later', blockId: block.id })}
+                          >
+                            <Text
+                              style={[styles.optionText, target.blockId === block.id && styles.selectedOptionText]}
+                              numberOfLines={1}
+                            >
+                              {formatTime12Hour(block.startTime)} {block.title}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: colors.textSecondary }]}>Not Now</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={() => onConfirm(targets)}>
+              <Text style={[styles.buttonText, { color: 'white' }]}>
+                {movingCount > 0 ? `Move ${movingCount}` : 'Done'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+      {visible && <ChoicePromptHost />}
+    </Modal>
+  );
+}
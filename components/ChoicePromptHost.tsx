@@ -0,0 +1,124 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { ChoicePromptRequest, registerChoicePromptHost } from '@/utils/choicePrompt';
+
+// Shows the dialogs asked for with showChoicePrompt. Requests made while one is open wait their turn.
+export default function ChoicePromptHost() {
+  const { colors } = useTheme();
+  const [queue, setQueue] = useState<ChoicePromptRequest[]>([]);
+  const queueRef = useRef<ChoicePromptRequest[]>([]);
+  queueRef.current = queue;
+
+  useEffect(() => {
+    const unregister = registerChoicePromptHost(request => setQueue(current => [...current, request]));
+
+    // Nobody is left to answer once the host goes away
+    return () => {
+      unregister();
+      queueRef.current.forEach(request => request.resolve(null));
+    };
+  }, []);
+
+  const request = queue[0];
+
+  const handleAnswer = (index: number | null) => {
+    if (!request) return;
+    setQueue(current => current.slice(1));
+    request.resolve(index);
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 24,
+      width: '100%',
+      maxWidth: 500,
+      maxHeight: '90%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    message: {
+      flexGrow: 0,
+      marginBottom: 16,
+    },
+    messageText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    options: {
+      gap: 8,
+    },
+    button: {
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    optionButton: {
+      backgroundColor: colors.primary,
+    },
+    destructiveButton: {
+      backgroundColor: colors.error,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={!!request} transparent animationType="fade" onRequestClose={() => handleAnswer(null)}>
+      {request && (
+        <View style={styles.overlay}>
+          <View style={styles.content}>
+            <Text style={styles.title}>{request.title}</Text>
+            {request.message !== '' && (
+              <ScrollView style={styles.message}>
+                <Text style={styles.messageText}>{request.message}</Text>
+              </ScrollView>
+            )}
+
+            <View style={styles.options}>
+              {request.options.map((option, index) => (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.button, option.style === 'destructive' ? styles.destructiveButton : styles.optionButton]}
+                  onPress={() => handleAnswer(index)}
+                >
+                  <Text style={[styles.buttonText, { color: 'white' }]}>{option.label}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={() => handleAnswer(null)}>
+                <Text style={[styles.buttonText, { color: colors.textSecondary }]}>{request.cancelLabel}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getBlocksInDateRange } from '@/utils/storage';
+import {
+  addDays,
+  formatDateString,
+  getDateRange,
+  getNextWeekday,
+  getTodayDateString,
+  getWeekday,
+  parseDateString,
+} from '@/utils/date';
+
+interface DatePickerProps {
+  visible: boolean;
+  value: string; // Format: YYYY-MM-DD
+  title?: string;
+  blocks?: TimeBlockData[]; // Days with blocks get a dot
+  onClose: () => void;
+  onSelect: (date: string) => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const CELL_WIDTH: `${number}%` = `${100 / 7}%`;
+const MONDAY = 1;
+
+export default function DatePicker({ visible, value, title = 'Select Date', blocks = [], onClose, onSelect }: DatePickerProps) {
+  const { colors } = useTheme();
+  const [shownMonth, setShownMonth] = useState(() => parseDateString(value));
+
+  // Open on the month of the current value
+  useEffect(() => {
+    if (visible) setShownMonth(parseDateString(value));
+  }, [visible]);
+
+  const today = getTodayDateString();
+  const monthStart = formatDateString(new Date(shownMonth.getFullYear(), shownMonth.getMonth(), 1));
+  const monthEnd = formatDateString(new Date(shownMonth.getFullYear(), shownMonth.getMonth() + 1, 0));
+  const monthDates = getDateRange(monthStart, monthEnd);
+  const leadingBlanks = getWeekday(monthStart);
+  const datesWithBlocks = new Set(getBlocksInDateRange(blocks, monthStart, monthEnd).map(block => block.date));
+
+  const quickJumps = [
+    { label: 'Today', date: today },
+    { label: 'Next Monday', date: getNextWeekday(today, MONDAY) },
+    { label: '+1 Week', date: addDays(value, 7) },
+  ];
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    setShownMonth(new Date(shownMonth.getFullYear(), shownMonth.getMonth() + (direction === 'next' ? 1 : -1), 1));
+  };
+
+  const handleSelect = (date: string) => {
+    onSelect(date);
+    onClose();
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      width: '100%',
+      maxWidth: 420,
+      paddingBottom: 16,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    quickJumps: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingTop: 16,
+    },
+    quickJump: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: colors.primary + '20',
+    },
+    quickJumpText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    monthNavigation: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    navButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    monthLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    weekdayRow: {
+      flexDirection: 'row',
+      paddingHorizontal: 12,
+      marginBottom: 4,
+    },
+    weekdayLabel: {
+      width: CELL_WIDTH,
+      textAlign: 'center',
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      paddingHorizontal: 12,
+    },
+    cell: {
+      width: CELL_WIDTH,
+      height: 44,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    day: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    todayDay: {
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    selectedDay: {
+      backgroundColor: colors.primary,
+    },
+    dayText: {
+      fontSize: 15,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    selectedDayText: {
+      color: 'white',
+      fontWeight: '700',
+    },
+    blockDot: {
+      position: 'absolute',
+      bottom: 4,
+      width: 4,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: colors.secondary,
+    },
+    selectedBlockDot: {
+      backgroundColor: 'white',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+        <TouchableOpacity style={styles.content} activeOpacity={1}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.quickJumps}>
+            {quickJumps.map(jump => (
+              <TouchableOpacity key={jump.label} style={styles.quickJump} onPress={() => handleSelect(jump.date)}>
+                <Text style={styles.quickJumpText}>{jump.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.monthNavigation}>
+            <TouchableOpacity style={styles.navButton} onPress={() => navigateMonth('prev')}>
+              <ChevronLeft size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <Text style={styles.monthLabel}>
+              {shownMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </Text>
+            <TouchableOpacity style={styles.navButton} onPress={() => navigateMonth('next')}>
+              <ChevronRight size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.weekdayRow}>
+            {WEEKDAY_LABELS.map((label, index) => (
+              <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+            ))}
+          </View>
+
+          <View style={styles.grid}>
+            {Array.from({ length: leadingBlanks }, (_, index) => (
+              <View key={`blank-${index}`} style={styles.cell} />
+            ))}
+            {monthDates.map(date => {
+              const isSelected = date === value;
+              return (
+                <TouchableOpacity key={date} style={styles.cell} onPress={() => handleSelect(date)}>
+                  <View style={[styles.day, date === today && styles.todayDay, isSelected && styles.selectedDay]}>
+                    <Text style={[styles.dayText, isSelected && styles.selectedDayText]}>
+                      {parseDateString(date).getDate()}
+                    </Text>
+                    {datesWithBlocks.has(date) && (
+                      <View style={[styles.blockDot, isSelected && styles.selectedBlockDot]} />
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
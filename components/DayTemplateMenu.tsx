@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, TextInput } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { X, Trash2, Save } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import ChoicePromptHost from '@/components/ChoicePromptHost';
+import { DayTemplate } from '@/utils/storage';
+import { getDayTemplateSpan } from '@/utils/dayTemplates';
+import { minutesToTime, MINUTES_PER_DAY } from '@/utils/blockTime';
+
+interface DayTemplateMenuProps {
+  visible: boolean;
+  dateLabel: string; // The day templates are saved from and applied to
+  blockCount: number; // Blocks starting on that day
+  templates: DayTemplate[];
+  onClose: () => void;
+  onApply: (template: DayTemplate) => void;
+  onSave: (name: string) => void;
+  onDelete: (template: DayTemplate) => void;
+}
+
+export default function DayTemplateMenu({
+  visible,
+  dateLabel,
+  blockCount,
+  templates,
+  onClose,
+  onApply,
+  onSave,
+  onDelete,
+}: DayTemplateMenuProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (visible) setName('');
+  }, [visible]);
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  // e.g. "4 blocks · 9:00 AM - 5:30 PM"
+  const describeTemplate = (template: DayTemplate) => {
+    const span = getDayTemplateSpan(template);
+    if (!span) return 'No blocks';
+
+    const count = `${template.blocks.length} block${template.blocks.length === 1 ? '' : 's'}`;
+    const nextDay = span.end > MINUTES_PER_DAY ? ' (next day)' : '';
+    return `${count} · ${formatTime12Hour(minutesToTime(span.start))} - ${formatTime12Hour(minutesToTime(span.end))}${nextDay}`;
+  };
+
+  const canSave = name.trim() !== '' && blockCount > 0;
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      maxHeight: '75%',
+      paddingBottom: Math.max(insets.bottom, 16),
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    sectionLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      paddingHorizontal: 20,
+      paddingTop: 16,
+      paddingBottom: 8,
+    },
+    saveRow: {
+      flexDirection: 'row',
+      gap: 12,
+      paddingHorizontal: 20,
+    },
+    input: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 15,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    saveButton: {
+      width: 48,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+    },
+    saveButtonDisabled: {
+      opacity: 0.5,
+    },
+    hint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      paddingHorizontal: 20,
+      paddingTop: 8,
+    },
+    templateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    templateContent: {
+      flex: 1,
+    },
+    templateName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    templateMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    deleteButton: {
+      padding: 8,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      padding: 20,
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Day Templates</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.sectionLabel}>Save {dateLabel} as a template</Text>
+            <View style={styles.saveRow}>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Maker day"
+                placeholderTextColor={colors.textSecondary}
+                maxLength={40}
+                returnKeyType="done"
+                onSubmitEditing={() => canSave && onSave(name.trim())}
+              />
+              <TouchableOpacity
+                style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+                onPress={() => onSave(name.trim())}
+                disabled={!canSave}
+              >
+                <Save size={18} color="white" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.hint}>
+              {blockCount > 0
+                ? `Saves the ${blockCount} block${blockCount === 1 ? '' : 's'} starting on this day, with their times and tasks.`
+                : 'Add some blocks to this day first.'}
+            </Text>
+
+            <Text style={styles.sectionLabel}>Apply to {dateLabel}</Text>
+            {templates.length === 0 ? (
+              <Text style={styles.emptyText}>No day templates yet</Text>
+            ) : (
+              templates.map(template => (
+                <TouchableOpacity key={template.id} style={styles.templateRow} onPress={() => onApply(template)}>
+                  <View style={styles.templateContent}>
+                    <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+                    <Text style={styles.templateMeta}>{describeTemplate(template)}</Text>
+                  </View>
+                  <TouchableOpacity style={styles.deleteButton} onPress={() => onDelete(template)}>
+                    <Trash2 size={16} color={colors.error} />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+      {visible && <ChoicePromptHost />}
+    </Modal>
+  );
+}
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { PanGestureHandler, State, PanGestureHandlerGestureEvent, PanGestureHandlerStateChangeEvent } from 'react-native-gesture-handler';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getTimelineLayout, getDraggedSpan, TimelineItem, TimelineDragMode } from '@/utils/timeline';
+import { getBlockDurationMinutes, minutesToTime, MINUTES_PER_DAY } from '@/utils/blockTime';
+import { formatDateString } from '@/utils/date';
+
+interface DayTimelineProps {
+  blocks: TimeBlockData[]; // Blocks taking up time on the date, including overnight ones from the day before
+  date: string;
+  currentTime: Date;
+  snapMinutes: number;
+  onBlockPress: (block: TimeBlockData) => void;
+  onReschedule?: (block: TimeBlockData, startTime: string, endTime: string) => void;
+  onDragStateChange?: (isDragging: boolean) => void; // Lets the parent stop scrolling while a block is dragged
+}
+
+interface DragPreview {
+  blockId: string;
+  mode: TimelineDragMode;
+  start: number;
+  durationMinutes: number;
+}
+
+const HOUR_HEIGHT = 64;
+const GUTTER_WIDTH = 52;
+const LONG_PRESS_MS = 350;
+
+export default function DayTimeline({
+  blocks,
+  date,
+  currentTime,
+  snapMinutes,
+  onBlockPress,
+  onReschedule,
+  onDragStateChange,
+}: DayTimelineProps) {
+  const { colors } = useTheme();
+  const [drag, setDrag] = useState<DragPreview | null>(null);
+
+  const isToday = formatDateString(currentTime) === date;
+  const nowMinutes = currentTime.getHours() * 60 + currentTime.getMinutes();
+  const { items, gaps, startHour, endHour } = getTimelineLayout(blocks, date, isToday ? nowMinutes : undefined);
+  const hours = Array.from({ length: endHour - startHour + 1 }, (_, i) => startHour + i);
+
+  // Helper function to turn minutes from midnight into a distance from the top of the grid
+  const toOffset = (minutes: number) => ((minutes - startHour * 60) / 60) * HOUR_HEIGHT;
+
+  // Only blocks starting on this date can be dragged; the tail of last night's block belongs to yesterday.
+  // A block with a running focus session stays put.
+  const canDrag = (block: TimeBlockData) => !!onReschedule && block.date === date && !block.isActive;
+
+  // Helper function to get the snapped span for a drag that has moved by translationY pixels
+  const getSpanForDrag = (item: TimelineItem, mode: TimelineDragMode, translationY: number) => {
+    const deltaMinutes = (translationY / HOUR_HEIGHT) * 60;
+    return getDraggedSpan(item.start, getBlockDurationMinutes(item.block), mode, deltaMinutes, snapMinutes);
+  };
+
+  const handleDragEvent = (item: TimelineItem, mode: TimelineDragMode) => (event: PanGestureHandlerGestureEvent) => {
+    setDrag({ blockId: item.block.id, mode, ...getSpanForDrag(item, mode, event.nativeEvent.translationY) });
+  };
+
+  const handleDragStateChange = (item: TimelineItem, mode: TimelineDragMode) => (event: PanGestureHandlerStateChangeEvent) => {
+    const { state, translationY } = event.nativeEvent;
+
+    if (state === State.ACTIVE) {
+      onDragStateChange?.(true);
+    } else if (state === State.END) {
+      const span = getSpanForDrag(item, mode, translationY);
+      const startTime = minutesToTime(span.start);
+      const endTime = minutesToTime(span.start + span.durationMinutes);
+      setDrag(null);
+      onDragStateChange?.(false);
+      if (startTime !== item.block.startTime || endTime !== item.block.endTime) {
+        onReschedule?.(item.block, startTime, endTime);
+      }
+    } else if (state === State.CANCELLED || state === State.FAILED) {
+      setDrag(null);
+      onDragStateChange?.(false);
+    }
+  };
+
+  const formatHour = (hour: number) => {
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour} ${hour % 24 >= 12 ? 'PM' : 'AM'}`;
+  };
+
+  const formatTime12Hour = (time24: string) => {
+    const [hour, minute] = time24.split(':').map(Number);
+    const period = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+    return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+  };
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      height: (endHour - startHour) * HOUR_HEIGHT + 12,
+      marginBottom: 8,
+    },
+    hourRow: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    hourLabel: {
+      width: GUTTER_WIDTH,
+      fontSize: 11,
+      color: colors.textSecondary,
+      fontWeight: '500',
+    },
+    hourLine: {
+      flex: 1,
+      height: 1,
+      backgroundColor: colors.border,
+    },
+    grid: {
+      position: 'absolute',
+      top: 6,
+      bottom: 6,
+      left: GUTTER_WIDTH,
+      right: 0,
+    },
+    gap: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    gapText: {
+      fontSize: 11,
+      color: colors.textSecondary,
+      fontStyle: 'italic',
+    },
+    block: {
+      position: 'absolute',
+      borderRadius: 8,
+      borderLeftWidth: 4,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      overflow: 'hidden',
+    },
+    blockTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    blockTime: {
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginTop: 1,
+    },
+    completedBlock: {
+      opacity: 0.6,
+    },
+    draggingBlock: {
+      zIndex: 10,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      elevation: 6,
+    },
+    resizeHandle: {
+      position: 'absolute',
+      left: 0,
+      right: 0,
+      bottom: 0,
+      height: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    resizeGrip: {
+      width: 24,
+      height: 3,
+      borderRadius: 2,
+      backgroundColor: colors.textSecondary + '80',
+    },
+    nowLine: {
+      position: 'absolute',
+      left: -6,
+      right: 0,
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    nowDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: colors.error,
+    },
+    nowBar: {
+      flex: 1,
+      height: 2,
+      backgroundColor: colors.error,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      {hours.map(hour => (
+        <View key={hour} style={[styles.hourRow, { top: toOffset(hour * 60) }]}>
+          <Text style={styles.hourLabel}>{formatHour(hour)}</Text>
+          <View style={styles.hourLine} />
+        </View>
+      ))}
+
+      <View style={styles.grid}>
+        {gaps.map(gap => (
+          <View key={`gap-${gap.start}`} style={[styles.gap, { top: toOffset(gap.start), height: toOffset(gap.end) - toOffset(gap.start) }]}>
+            <Text style={styles.gapText}>Free · {formatDuration(gap.end - gap.start)}</Text>
+          </View>
+        ))}
+
+        {items.map(item => {
+          const { block, column, columnCount } = item;
+          const preview = drag?.blockId === block.id ? drag : null;
+          const start = preview ? preview.start : item.start;
+          const end = preview ? Math.min(preview.start + preview.durationMinutes, MINUTES_PER_DAY) : item.end;
+          const height = Math.max(toOffset(end) - toOffset(start) - 2, 18);
+          const left: `${number}%` = `${(column / columnCount) * 100}%`;
+          const width: `${number}%` = `${100 / columnCount}%`;
+          const startTime = preview ? minutesToTime(preview.start) : block.startTime;
+          const endTime = preview ? minutesToTime(preview.start + preview.durationMinutes) : block.endTime;
+          const isDraggable = canDrag(block);
+
+          const content = (
+            <View
+              style={[
+                styles.block,
+                {
+                  top: toOffset(start) + 1,
+                  height,
+                  left,
+                  width,
+                  backgroundColor: block.color + '25',
+                  borderLeftColor: block.color,
+                },
+                block.isCompleted && styles.completedBlock,
+                preview && styles.draggingBlock,
+              ]}
+            >
+              <TouchableOpacity onPress={() => onBlockPress(block)} activeOpacity={0.7} disabled={!!preview}>
+                <Text style={styles.blockTitle} numberOfLines={height < 40 ? 1 : 2}>
+                  {block.isCompleted ? '✓ ' : ''}{block.title}
+                </Text>
+                {(height >= 40 || preview) && (
+                  <Text style={styles.blockTime} numberOfLines={1}>
+                    {formatTime12Hour(startTime)} - {formatTime12Hour(endTime)}
+                    {!preview && block.tasks.length > 0 ? ` · ${block.tasks.filter(task => task.isDone).length}/${block.tasks.length}` : ''}
+                  </Text>
+                )}
+              </TouchableOpacity>
+
+              {isDraggable && (
+                <PanGestureHandler
+                  onGestureEvent={handleDragEvent(item, 'resize')}
+                  onHandlerStateChange={handleDragStateChange(item, 'resize')}
+                  activeOffsetY={[-4, 4]}
+                >
+                  <View style={styles.resizeHandle}>
+                    <View style={styles.resizeGrip} />
+                  </View>
+                </PanGestureHandler>
+              )}
+            </View>
+          );
+
+          // Long press a block to pick it up, then drag it to a new start time
+          return isDraggable ? (
+            <PanGestureHandler
+              key={block.id}
+              onGestureEvent={handleDragEvent(item, 'move')}
+              onHandlerStateChange={handleDragStateChange(item, 'move')}
+              activateAfterLongPress={LONG_PRESS_MS}
+            >
+              {content}
+            </PanGestureHandler>
+          ) : (
+            <React.Fragment key={block.id}>{content}</React.Fragment>
+          );
+        })}
+
+        {isToday && (
+          <View style={[styles.nowLine, { top: toOffset(nowMinutes) - 5 }]} pointerEvents="none">
+            <View style={styles.nowDot} />
+            <View style={styles.nowBar} />
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
@@ -1,51 +1,103 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Animated, Alert, StatusBar, Dimensions } from 'react-native';
-import { X, Pause, Play, RotateCcw, LogOut } from 'lucide-react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Animated, Alert, StatusBar, Dimensions, ScrollView, AppState } from 'react-native';
+import { X, Pause, Play, RotateCcw, LogOut, Check, SkipForward } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
+import { BlockTask } from '@/components/TimeBlock';
+import { SessionEvent, createSessionEvent } from '@/utils/storage';
+import {
+  FocusSession,
+  getRemainingMs,
+  isSessionPaused,
+  pauseSession,
+  resumeSession,
+  restartSession,
+  extendSession,
+  advanceIntervals,
+  skipInterval,
+  getCurrentInterval,
+  getWorkCycle,
+  hasNextInterval,
+  isBreakInterval,
+} from '@/utils/focusSession';
+
+const EXTEND_MINUTES = 5;
+const BREAK_COLOR = '#4ECDC4';
+
 
 interface FocusTimerProps {
-  duration: number; // in minutes
+  session: FocusSession;
+  onSessionChange: (session: FocusSession, events: SessionEvent[]) => void;
   onComplete: () => void;
   onStop: () => void;
   onEnd: () => void;
   blockTitle: string;
   blockColor: string;
+  tasks?: BlockTask[];
+  onToggleTask?: (taskId: string) => void;
 }
 
 export default function FocusTimer({
-                                     duration,
+                                     session,
+                                     onSessionChange,
                                      onComplete,
                                      onStop,
                                      onEnd,
                                      blockTitle,
-                                     blockColor
+                                     blockColor,
+                                     tasks = [],
+                                     onToggleTask
                                    }: FocusTimerProps) {
-  const [timeLeft, setTimeLeft] = useState(duration * 60);
-  const [isRunning, setIsRunning] = useState(true);
-  const [isPaused, setIsPaused] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [pulseAnim] = useState(new Animated.Value(1));
+  const hasCompleted = useRef(false);
   const { colors } = useTheme();
 
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+  // Remaining time always comes from the wall clock, never from counting ticks
+  const timeLeft = Math.ceil(getRemainingMs(session, now) / 1000);
+  const isPaused = isSessionPaused(session) && timeLeft > 0;
+  const isRunning = !isPaused && timeLeft > 0;
+  const isPomodoro = !!session.intervals;
+  const isBreak = isBreakInterval(session);
+  const accentColor = isBreak ? BREAK_COLOR : blockColor;
+  const workCycle = getWorkCycle(session);
+  // After an interval ends without auto-start, the next one waits paused at its full length
+  const isAwaitingStart = isPomodoro && isPaused && (session.intervalIndex ?? 0) > 0
+    && getRemainingMs(session, now) === session.durationMs;
+
   useEffect(() => {
-    let interval: number;
-
-    if (isRunning && !isPaused && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            setIsRunning(false);
-            onComplete();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    }
+    if (!isRunning) return;
 
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [isRunning, isPaused, timeLeft, onComplete]);
+  }, [isRunning]);
+
+  // Catch up as soon as the app returns from the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') setNow(Date.now());
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (timeLeft > 0) return;
+
+    if (hasNextInterval(session)) {
+      const { session: advanced, ended } = advanceIntervals(session, Date.now());
+      onSessionChange(advanced, ended.map(({ interval, at, nextStarted }) =>
+        createSessionEvent('intervalComplete', at, { interval, nextStarted })
+      ));
+      setNow(Date.now());
+      return;
+    }
+
+    if (!hasCompleted.current) {
+      hasCompleted.current = true;
+      onComplete();
+    }
+  }, [timeLeft, session]);
 
   useEffect(() => {
     const pulse = () => {
@@ -77,20 +129,38 @@ export default function FocusTimer({
   };
 
   const getProgress = () => {
-    const totalSeconds = duration * 60;
-    return ((totalSeconds - timeLeft) / totalSeconds) * 100;
+    if (session.durationMs <= 0) return 100;
+    return ((session.durationMs / 1000 - timeLeft) / (session.durationMs / 1000)) * 100;
   };
 
   const toggleTimer = () => {
     if (timeLeft <= 0) return;
 
+    const current = Date.now();
     if (isPaused) {
-      setIsPaused(false);
-      setIsRunning(true);
+      onSessionChange(resumeSession(session, current), [createSessionEvent('resume', current)]);
     } else {
-      setIsPaused(true);
-      setIsRunning(false);
+      onSessionChange(pauseSession(session, current), [createSessionEvent('pause', current)]);
     }
+    setNow(current);
+  };
+
+  const extendTimer = () => {
+    if (timeLeft <= 0) return;
+    onSessionChange(extendSession(session, EXTEND_MINUTES), [
+      createSessionEvent('extend', Date.now(), { minutes: EXTEND_MINUTES }),
+    ]);
+  };
+
+  const skipCurrentInterval = () => {
+    const interval = getCurrentInterval(session);
+    if (!interval || !hasNextInterval(session)) return;
+
+    const current = Date.now();
+    onSessionChange(skipInterval(session, current), [
+      createSessionEvent('intervalSkip', current, { interval: interval.type, nextStarted: !!session.autoStartNext }),
+    ]);
+    setNow(current);
   };
 
   const resetTimer = () => {
@@ -102,9 +172,10 @@ export default function FocusTimer({
         {
           text: 'Reset',
           onPress: () => {
-            setTimeLeft(duration * 60);
-            setIsRunning(true);
-            setIsPaused(false);
+            const current = Date.now();
+            hasCompleted.current = false;
+            onSessionChange(restartSession(session, current), [createSessionEvent('reset', current)]);
+            setNow(current);
           }
         }
       ]
@@ -120,8 +191,10 @@ export default function FocusTimer({
         {
           text: 'Pause & Exit',
           onPress: () => {
-            setIsRunning(false);
-            setIsPaused(true);
+            if (!isPaused) {
+              const current = Date.now();
+              onSessionChange(pauseSession(session, current), [createSessionEvent('pause', current)]);
+            }
             onStop();
           }
         },
@@ -129,8 +202,6 @@ export default function FocusTimer({
           text: 'End Session',
           style: 'destructive',
           onPress: () => {
-            setIsRunning(false);
-            setIsPaused(false);
             onEnd();
           }
         }
@@ -145,22 +216,31 @@ export default function FocusTimer({
     return 'stopped';
   };
 
+  const getIntervalLabel = () => {
+    const interval = getCurrentInterval(session);
+    if (interval?.type === 'longBreak') return 'Long Break';
+    if (interval?.type === 'shortBreak') return 'Short Break';
+    return 'Focus';
+  };
+
   const getStatusText = () => {
     const status = getTimerStatus();
+    if (isAwaitingStart) return `Up Next: ${getIntervalLabel()}`;
     switch (status) {
       case 'completed': return 'Session Complete! 🎉';
       case 'paused': return 'Paused';
-      case 'running': return 'Deep Focus Mode';
+      case 'running': return isBreak ? `${getIntervalLabel()} ☕` : 'Deep Focus Mode';
       default: return 'Ready to Focus';
     }
   };
 
   const getStatusColor = () => {
     const status = getTimerStatus();
+    if (isAwaitingStart) return accentColor;
     switch (status) {
       case 'completed': return '#4CAF50';
       case 'paused': return '#FFB800';
-      case 'running': return blockColor;
+      case 'running': return accentColor;
       default: return 'rgba(255, 255, 255, 0.6)';
     }
   };
@@ -177,7 +257,7 @@ export default function FocusTimer({
       "The key to success is to focus our conscious mind on things we desire.",
     ];
 
-    const quoteIndex = Math.floor((duration * 60 - timeLeft) / 60) % quotes.length;
+    const quoteIndex = Math.floor((session.durationMs / 1000 - timeLeft) / 60) % quotes.length;
     return quotes[quoteIndex];
   };
 
@@ -222,6 +302,13 @@ export default function FocusTimer({
       letterSpacing: 1,
       textTransform: 'uppercase',
     },
+    cycleText: {
+      fontSize: 13,
+      color: 'rgba(255, 255, 255, 0.6)',
+      fontWeight: '600',
+      marginTop: 12,
+      letterSpacing: 0.5,
+    },
     timerContainer: {
       alignItems: 'center',
       justifyContent: 'center',
@@ -232,12 +319,12 @@ export default function FocusTimer({
       height: Math.min(screenWidth * 0.65, 260),
       borderRadius: Math.min(screenWidth * 0.325, 130),
       borderWidth: 4,
-      borderColor: blockColor,
+      borderColor: accentColor,
       alignItems: 'center',
       justifyContent: 'center',
       backgroundColor: 'rgba(255, 255, 255, 0.02)',
       marginBottom: 30,
-      shadowColor: blockColor,
+      shadowColor: accentColor,
       shadowOffset: { width: 0, height: 0 },
       shadowOpacity: 0.6,
       shadowRadius: 20,
@@ -246,7 +333,7 @@ export default function FocusTimer({
     timeText: {
       fontSize: Math.min(screenWidth * 0.12, 44),
       fontWeight: '900',
-      color: blockColor,
+      color: accentColor,
       marginBottom: 4,
       letterSpacing: -1,
       textAlign: 'center',
@@ -275,7 +362,7 @@ export default function FocusTimer({
     progressFill: {
       height: '100%',
       borderRadius: 3,
-      backgroundColor: blockColor,
+      backgroundColor: accentColor,
     },
     progressText: {
       fontSize: 14,
@@ -288,7 +375,7 @@ export default function FocusTimer({
       flexDirection: 'row',
       alignItems: 'center',
       justifyContent: 'center',
-      gap: 20,
+      gap: isPomodoro ? 12 : 20, // Pomodoro adds a skip button
       paddingHorizontal: 20,
     },
     controlButton: {
@@ -304,8 +391,8 @@ export default function FocusTimer({
       elevation: 8,
     },
     primaryButton: {
-      backgroundColor: blockColor,
-      shadowColor: blockColor,
+      backgroundColor: accentColor,
+      shadowColor: accentColor,
       shadowOffset: { width: 0, height: 2 },
       shadowOpacity: 0.4,
       shadowRadius: 4,
@@ -321,6 +408,60 @@ export default function FocusTimer({
       borderWidth: 2,
       borderColor: 'rgba(255, 68, 68, 0.6)',
     },
+    extendButton: {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+      borderWidth: 2,
+      borderColor: 'rgba(255, 255, 255, 0.3)',
+    },
+    extendButtonText: {
+      color: 'white',
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    // TASK CHECKLIST
+    checklist: {
+      width: '100%',
+      maxWidth: 320,
+      maxHeight: 160,
+    },
+    checklistTitle: {
+      fontSize: 12,
+      color: 'rgba(255, 255, 255, 0.6)',
+      fontWeight: '600',
+      letterSpacing: 2,
+      textTransform: 'uppercase',
+      marginBottom: 8,
+      textAlign: 'center',
+    },
+    checklistItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 8,
+    },
+    checkbox: {
+      width: 22,
+      height: 22,
+      borderRadius: 6,
+      borderWidth: 2,
+      borderColor: 'rgba(255, 255, 255, 0.4)',
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    checkboxDone: {
+      borderColor: blockColor,
+      backgroundColor: blockColor,
+    },
+    checklistText: {
+      flex: 1,
+      fontSize: 15,
+      color: '#FFFFFF',
+      fontWeight: '500',
+    },
+    checklistTextDone: {
+      color: 'rgba(255, 255, 255, 0.4)',
+      textDecorationLine: 'line-through',
+    },
     // BOTTOM PANEL FOR MOTIVATION
     bottomPanel: {
       position: 'absolute',
@@ -371,6 +512,11 @@ export default function FocusTimer({
           <View style={styles.statusContainer}>
             <Text style={styles.statusText}>{getStatusText()}</Text>
           </View>
+          {isPomodoro && (
+            <Text style={styles.cycleText}>
+              Cycle {workCycle.current} of {workCycle.total}
+            </Text>
+          )}
         </View>
 
         <View style={styles.timerContainer}>
@@ -429,6 +575,28 @@ export default function FocusTimer({
                 </TouchableOpacity>
               )}
 
+              {/* Skip Interval Button */}
+              {timeLeft > 0 && hasNextInterval(session) && (
+                <TouchableOpacity
+                  style={[styles.controlButton, styles.extendButton]}
+                  onPress={skipCurrentInterval}
+                  activeOpacity={0.7}
+                >
+                  <SkipForward size={20} color="white" />
+                </TouchableOpacity>
+              )}
+
+              {/* Extend Button */}
+              {timeLeft > 0 && (
+                <TouchableOpacity
+                  style={[styles.controlButton, styles.extendButton]}
+                  onPress={extendTimer}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.extendButtonText}>+{EXTEND_MINUTES}</Text>
+                </TouchableOpacity>
+              )}
+
               {/* Exit Button - Always Available */}
               <TouchableOpacity
                 style={[styles.controlButton, styles.exitButton]}
@@ -440,6 +608,33 @@ export default function FocusTimer({
             </View>
           </View>
         </View>
+
+        {/* TASK CHECKLIST */}
+        {tasks.length > 0 && (
+          <View style={styles.checklist}>
+            <Text style={styles.checklistTitle}>
+              Tasks {tasks.filter(task => task.isDone).length}/{tasks.length}
+            </Text>
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {tasks.map(task => (
+                <TouchableOpacity
+                  key={task.id}
+                  style={styles.checklistItem}
+                  onPress={() => onToggleTask?.(task.id)}
+                  disabled={!onToggleTask}
+                  activeOpacity={0.7}
+                >
+                  <View style={[styles.checkbox, task.isDone && styles.checkboxDone]}>
+                    {task.isDone && <Check size={14} color="white" strokeWidth={3} />}
+                  </View>
+                  <Text style={[styles.checklistText, task.isDone && styles.checklistTextDone]}>
+                    {task.text}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
       </View>
 
       {/* Session Complete Message */}
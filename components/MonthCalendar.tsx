@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { DayStats } from '@/utils/analytics';
+import { getTodayDateString, getWeekday, parseDateString } from '@/utils/date';
+
+interface MonthCalendarProps {
+  days: DayStats[]; // Every day of the month, in order
+  onDayPress: (date: string) => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const CELL_WIDTH: `${number}%` = `${100 / 7}%`;
+
+export default function MonthCalendar({ days, onDayPress }: MonthCalendarProps) {
+  const { colors } = useTheme();
+  const today = getTodayDateString();
+
+  // Blank cells before the 1st so each day sits under its weekday
+  const leadingBlanks = days.length > 0 ? getWeekday(days[0].date) : 0;
+
+  // Helper function to format minutes as short hours, e.g. 1.5h
+  const formatHours = (minutes: number) => {
+    const hours = minutes / 60;
+    return `${hours >= 10 ? Math.round(hours) : Math.round(hours * 10) / 10}h`;
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 8,
+    },
+    weekdayRow: {
+      flexDirection: 'row',
+      marginBottom: 4,
+    },
+    weekdayLabel: {
+      width: CELL_WIDTH,
+      textAlign: 'center',
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    cell: {
+      width: CELL_WIDTH,
+      height: 64,
+      padding: 2,
+    },
+    cellInner: {
+      flex: 1,
+      borderRadius: 8,
+      padding: 4,
+      backgroundColor: colors.background,
+    },
+    todayCell: {
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    dayNumber: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    todayNumber: {
+      color: colors.primary,
+    },
+    hoursText: {
+      fontSize: 9,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    progressTrack: {
+      position: 'absolute',
+      left: 4,
+      right: 4,
+      bottom: 4,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: '100%',
+      borderRadius: 2,
+      backgroundColor: colors.success,
+    },
+    legend: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 16,
+      marginTop: 8,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    legendSwatch: {
+      width: 12,
+      height: 4,
+      borderRadius: 2,
+    },
+    legendText: {
+      fontSize: 11,
+      color: colors.textSecondary,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.weekdayRow}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+        ))}
+      </View>
+
+      <View style={styles.grid}>
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <View key={`blank-${index}`} style={styles.cell} />
+        ))}
+
+        {days.map(day => {
+          const isToday = day.date === today;
+          const completedShare: `${number}%` = `${day.plannedMinutes > 0 ? Math.min(100, (day.completedMinutes / day.plannedMinutes) * 100) : 0}%`;
+
+          return (
+            <TouchableOpacity key={day.date} style={styles.cell} onPress={() => onDayPress(day.date)} activeOpacity={0.7}>
+              <View style={[styles.cellInner, isToday && styles.todayCell]}>
+                <Text style={[styles.dayNumber, isToday && styles.todayNumber]}>
+                  {parseDateString(day.date).getDate()}
+                </Text>
+                {day.plannedMinutes > 0 && (
+                  <>
+                    <Text style={styles.hoursText} numberOfLines={1}>
+                      {formatHours(day.completedMinutes)}/{formatHours(day.plannedMinutes)}
+                    </Text>
+                    <View style={styles.progressTrack}>
+                      <View style={[styles.progressFill, { width: completedShare }]} />
+                    </View>
+                  </>
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: colors.success }]} />
+          <Text style={styles.legendText}>Completed</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, { backgroundColor: colors.border }]} />
+          <Text style={styles.legendText}>Planned</Text>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,157 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { X, Zap } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import ChoicePromptHost from '@/components/ChoicePromptHost';
+import { BlockTemplate } from '@/utils/storage';
+
+interface QuickBlockMenuProps {
+  visible: boolean;
+  templates: BlockTemplate[];
+  onClose: () => void;
+  onSelectDuration: (minutes: number) => void;
+  onSelectTemplate: (template: BlockTemplate) => void;
+}
+
+const QUICK_DURATIONS = [30, 60, 90];
+
+export default function QuickBlockMenu({ visible, templates, onClose, onSelectDuration, onSelectTemplate }: QuickBlockMenuProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'flex-end',
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      maxHeight: '75%',
+      paddingBottom: Math.max(insets.bottom, 16),
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    sectionLabel: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      paddingHorizontal: 20,
+      paddingTop: 16,
+      paddingBottom: 8,
+    },
+    durationRow: {
+      flexDirection: 'row',
+      gap: 12,
+      paddingHorizontal: 20,
+    },
+    durationButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 12,
+      borderRadius: 8,
+      backgroundColor: colors.primary + '20',
+    },
+    durationText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    templateRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 14,
+      paddingHorizontal: 20,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    templateColor: {
+      width: 4,
+      alignSelf: 'stretch',
+      borderRadius: 2,
+    },
+    templateContent: {
+      flex: 1,
+    },
+    templateName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    templateMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add Quick Block</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView>
+            <Text style={styles.sectionLabel}>Start a focus block now</Text>
+            <View style={styles.durationRow}>
+              {QUICK_DURATIONS.map(minutes => (
+                <TouchableOpacity key={minutes} style={styles.durationButton} onPress={() => onSelectDuration(minutes)}>
+                  <Zap size={14} color={colors.primary} />
+                  <Text style={styles.durationText}>{minutes} min</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {templates.length > 0 && (
+              <>
+                <Text style={styles.sectionLabel}>Or start from a template</Text>
+                {templates.map(template => (
+                  <TouchableOpacity key={template.id} style={styles.templateRow} onPress={() => onSelectTemplate(template)}>
+                    <View style={[styles.templateColor, { backgroundColor: template.color }]} />
+                    <View style={styles.templateContent}>
+                      <Text style={styles.templateName} numberOfLines={1}>{template.name}</Text>
+                      <Text style={styles.templateMeta}>
+                        {formatDuration(template.durationMinutes)} · {template.category}
+                        {template.tasks.length > 0 ? ` · ${template.tasks.length} task${template.tasks.length === 1 ? '' : 's'}` : ''}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+      {visible && <ChoicePromptHost />}
+    </Modal>
+  );
+}
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Minus, Plus, Repeat } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { RepeatRule, RepeatFrequency } from '@/components/TimeBlock';
+import { describeRepeatRule } from '@/utils/recurrence';
+import { getWeekday } from '@/utils/date';
+
+interface RepeatPickerProps {
+  value?: RepeatRule;
+  onChange: (rule?: RepeatRule) => void;
+  startDate: string; // Format: YYYY-MM-DD
+}
+
+type RepeatEnd = 'never' | 'until' | 'count';
+
+const frequencyOptions: { value: RepeatFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const weekdayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function RepeatPicker({ value, onChange, startDate }: RepeatPickerProps) {
+  const { colors } = useTheme();
+  const [untilText, setUntilText] = useState(value?.until ?? '');
+
+  const repeatEnd: RepeatEnd = value?.until !== undefined ? 'until' : value?.count ? 'count' : 'never';
+  const startWeekday = getWeekday(startDate);
+
+  const handleFrequencyChange = (frequency: RepeatFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+
+    onChange({
+      ...value,
+      frequency,
+      interval: value?.interval ?? 1,
+      weekdays: frequency === 'weekly' ? (value?.weekdays?.length ? value.weekdays : [startWeekday]) : undefined,
+    });
+  };
+
+  const handleIntervalChange = (delta: number) => {
+    if (!value) return;
+    onChange({ ...value, interval: Math.min(52, Math.max(1, (value.interval || 1) + delta)) });
+  };
+
+  const handleWeekdayToggle = (weekday: number) => {
+    if (!value) return;
+    const current = value.weekdays ?? [];
+    const weekdays = current.includes(weekday)
+      ? current.filter(d => d !== weekday)
+      : [...current, weekday].sort();
+
+    // A weekly rule needs at least one day
+    if (weekdays.length === 0) return;
+    onChange({ ...value, weekdays });
+  };
+
+  const handleEndChange = (end: RepeatEnd) => {
+    if (!value) return;
+    const { until, count, ...rule } = value;
+
+    if (end === 'until') {
+      setUntilText(startDate);
+      onChange({ ...rule, until: startDate });
+    } else if (end === 'count') {
+      onChange({ ...rule, count: 10 });
+    } else {
+      onChange(rule);
+    }
+  };
+
+  const handleUntilChange = (text: string) => {
+    setUntilText(text);
+    if (value && /^\d{4}-\d{2}-\d{2}$/.test(text) && text >= startDate) {
+      onChange({ ...value, until: text });
+    }
+  };
+
+  const handleCountChange = (delta: number) => {
+    if (!value) return;
+    onChange({ ...value, count: Math.min(365, Math.max(1, (value.count || 1) + delta)) });
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      gap: 16,
+    },
+    chipsRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 20,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      minHeight: 40,
+      justifyContent: 'center',
+    },
+    chipSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '20',
+    },
+    chipText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: colors.primary,
+      fontWeight: '700',
+    },
+    optionLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      fontWeight: '600',
+      marginBottom: 8,
+    },
+    stepperRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    stepperButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    stepperValue: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    weekdayButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    weekdayButtonSelected: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    weekdayText: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    weekdayTextSelected: {
+      color: 'white',
+    },
+    untilInput: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 14,
+      color: colors.text,
+      minHeight: 44,
+    },
+    summary: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    summaryText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      fontWeight: '500',
+      flex: 1,
+    },
+  });
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, isSelected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipsRow}>
+        {frequencyOptions.map(option =>
+          renderChip(
+            option.label,
+            option.value === 'none' ? !value : value?.frequency === option.value,
+            () => handleFrequencyChange(option.value)
+          )
+        )}
+      </View>
+
+      {value && value.frequency !== 'weekdays' && (
+        <View>
+          <Text style={styles.optionLabel}>Every</Text>
+          <View style={styles.stepperRow}>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleIntervalChange(-1)}>
+              <Minus size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {value.interval || 1} {value.frequency === 'daily' ? 'day(s)' : 'week(s)'}
+            </Text>
+            <TouchableOpacity style={styles.stepperButton} onPress={() => handleIntervalChange(1)}>
+              <Plus size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {value?.frequency === 'weekly' && (
+        <View>
+          <Text style={styles.optionLabel}>On</Text>
+          <View style={styles.chipsRow}>
+            {weekdayLabels.map((label, weekday) => {
+              const isSelected = value.weekdays?.includes(weekday) ?? false;
+              return (
+                <TouchableOpacity
+                  key={weekday}
+                  style={[styles.weekdayButton, isSelected && styles.weekdayButtonSelected]}
+                  onPress={() => handleWeekdayToggle(weekday)}
+                >
+                  <Text style={[styles.weekdayText, isSelected && styles.weekdayTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {value && (
+        <View>
+          <Text style={styles.optionLabel}>Ends</Text>
+          <View style={styles.chipsRow}>
+            {renderChip('Never', repeatEnd === 'never', () => handleEndChange('never'))}
+            {renderChip('On date', repeatEnd === 'until', () => handleEndChange('until'))}
+            {renderChip('After', repeatEnd === 'count', () => handleEndChange('count'))}
+          </View>
+        </View>
+      )}
+
+      {value && repeatEnd === 'until' && (
+        <TextInput
+          style={styles.untilInput}
+          value={untilText}
+          onChangeText={handleUntilChange}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor={colors.textSecondary}
+          maxLength={10}
+        />
+      )}
+
+      {value && repeatEnd === 'count' && (
+        <View style={styles.stepperRow}>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => handleCountChange(-1)}>
+            <Minus size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{value.count} occurrences</Text>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => handleCountChange(1)}>
+            <Plus size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {value && (
+        <View style={styles.summary}>
+          <Repeat size={14} color={colors.textSecondary} />
+          <Text style={styles.summaryText}>{describeRepeatRule(value)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, TextInput, Alert } from 'react-native';
+import { X, Plus, Trash2, Save } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { BlockTemplate, BlockCategory, loadCategories } from '@/utils/storage';
+
+interface TemplateEditorProps {
+  visible: boolean;
+  heading: string;
+  template: BlockTemplate | null;
+  onCancel: () => void;
+  onSave: (template: BlockTemplate) => void;
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+
+const PREDEFINED_COLORS = [
+  '#FF6B35', '#2E8B8B', '#8B4F9F', '#4F8B3B',
+  '#B85C38', '#6B4E7D', '#7D6B4E', '#FF4444',
+  '#FFB800', '#4CAF50', '#2196F3', '#9C27B0'
+];
+
+export default function TemplateEditor({ visible, heading, template, onCancel, onSave }: TemplateEditorProps) {
+  const { colors } = useTheme();
+  const [categories, setCategories] = useState<BlockCategory[]>([]);
+  const [name, setName] = useState('');
+  const [title, setTitle] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [category, setCategory] = useState('');
+  const [color, setColor] = useState(PREDEFINED_COLORS[0]);
+  const [tasks, setTasks] = useState<string[]>(['']);
+
+  // Start from the template each time the editor opens
+  useEffect(() => {
+    if (!visible || !template) return;
+
+    setName(template.name);
+    setTitle(template.title);
+    setDurationMinutes(template.durationMinutes);
+    setCategory(template.category);
+    setColor(template.color);
+    setTasks(template.tasks.length > 0 ? template.tasks : ['']);
+    loadCategories().then(setCategories);
+  }, [visible, template]);
+
+  // Blocks saved as templates may have a length outside the usual options
+  const durationOptions = DURATION_OPTIONS.includes(durationMinutes)
+    ? DURATION_OPTIONS
+    : [...DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b);
+
+  const formatDuration = (minutes: number) => {
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    const remainingMinutes = minutes % 60;
+    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  };
+
+  const handleTaskChange = (index: number, value: string) => {
+    const newTasks = [...tasks];
+    newTasks[index] = value;
+    setTasks(newTasks);
+  };
+
+  const handleSave = () => {
+    if (!template) return;
+    if (!name.trim() || !title.trim()) {
+      Alert.alert('Error', 'Please enter a template name and block title');
+      return;
+    }
+
+    onSave({
+      ...template,
+      name: name.trim(),
+      title: title.trim(),
+      durationMinutes,
+      category,
+      color,
+      tasks: tasks.map(task => task.trim()).filter(task => task !== ''),
+    });
+  };
+
+  const styles = StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 20,
+    },
+    content: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 24,
+      width: '100%',
+      maxWidth: 500,
+      maxHeight: '90%',
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 10 },
+      shadowOpacity: 0.3,
+      shadowRadius: 20,
+      elevation: 10,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 8,
+      marginTop: 12,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 15,
+      color: colors.text,
+      backgroundColor: colors.background,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+      gap: 6,
+    },
+    selectedChip: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    selectedChipText: {
+      color: 'white',
+    },
+    categoryDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    colorOption: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      borderWidth: 2,
+      borderColor: 'transparent',
+    },
+    selectedColor: {
+      borderColor: colors.text,
+    },
+    taskRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    taskInput: {
+      flex: 1,
+    },
+    addTaskButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 8,
+    },
+    addTaskText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 20,
+    },
+    button: {
+      flex: 1,
+      flexDirection: 'row',
+      paddingVertical: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      minHeight: 48,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+    },
+    buttonText: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{heading}</Text>
+            <TouchableOpacity onPress={onCancel}>
+              <X size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.label}>Template Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Morning deep work"
+              placeholderTextColor={colors.textSecondary}
+              maxLength={40}
+            />
+
+            <Text style={styles.label}>Block Title</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Title for blocks made from this template"
+              placeholderTextColor={colors.textSecondary}
+              maxLength={50}
+            />
+
+            <Text style={styles.label}>Duration</Text>
+            <View style={styles.chipRow}>
+              {durationOptions.map(minutes => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, durationMinutes === minutes && styles.selectedChip]}
+                  onPress={() => setDurationMinutes(minutes)}
+                >
+                  <Text style={[styles.chipText, durationMinutes === minutes && styles.selectedChipText]}>
+                    {formatDuration(minutes)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Category</Text>
+            <View style={styles.chipRow}>
+              {categories.map(c => (
+                <TouchableOpacity
+                  key={c.id}
+                  style={[styles.chip, category === c.name && styles.selectedChip]}
+                  onPress={() => {
+                    setCategory(c.name);
+                    setColor(c.color);
+                  }}
+                >
+                  <View style={[styles.categoryDot, { backgroundColor: c.color }]} />
+                  <Text style={[styles.chipText, category === c.name && styles.selectedChipText]}>{c.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Color</Text>
+            <View style={styles.chipRow}>
+              {PREDEFINED_COLORS.map(c => (
+                <TouchableOpacity
+                  key={c}
+                  style={[styles.colorOption, { backgroundColor: c }, color === c && styles.selectedColor]}
+                  onPress={() => setColor(c)}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.label}>Tasks</Text>
+            {tasks.map((task, index) => (
+              <View key={index} style={styles.taskRow}>
+                <TextInput
+                  style={[styles.input, styles.taskInput]}
+                  value={task}
+                  onChangeText={(value) => handleTaskChange(index, value)}
+                  placeholder={`Task ${index + 1}...`}
+                  placeholderTextColor={colors.textSecondary}
+                  maxLength={100}
+                />
+                {tasks.length > 1 && (
+                  <TouchableOpacity onPress={() => setTasks(tasks.filter((_, i) => i !== index))}>
+                    <Trash2 size={16} color={colors.error} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {tasks.length < 5 && (
+              <TouchableOpacity style={styles.addTaskButton} onPress={() => setTasks([...tasks, ''])}>
+                <Plus size={16} color={colors.textSecondary} />
+                <Text style={styles.addTaskText}>Add another task</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={[styles.buttonText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleSave}>
+              <Save size={16} color="white" />
+              <Text style={[styles.buttonText, { color: 'white' }]}>Save Template</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -1,9 +1,44 @@
 import React, { useState, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Pressable, Alert, Animated, TextInput, ScrollView, Modal, Platform, Dimensions } from 'react-native';
-import { Clock, Play, CircleCheck as CheckCircle, Trash2, CreditCard as Edit, Save, X, Plus, ChevronDown, Palette, Calendar } from 'lucide-react-native';
+import { Clock, Play, CircleCheck as CheckCircle, Trash2, CreditCard as Edit, Save, X, Plus, ChevronDown, Palette, Calendar, Repeat, Check, BookmarkPlus } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
 import { loadCategories, BlockCategory } from '@/utils/storage';
+import { isRecurringOccurrence } from '@/utils/recurrence';
+import { askRepeatScope, getBlockEditChanges, getTaskDrafts } from '@/utils/blockEdit';
+import { isOvernightBlock } from '@/utils/blockTime';
+import { getTodayDateString, addDays, formatRelativeDate } from '@/utils/date';
+import RepeatPicker from '@/components/RepeatPicker';
+import DatePicker from '@/components/DatePicker';
+import ChoicePromptHost from '@/components/ChoicePromptHost';
+
+export type RepeatFrequency = 'daily' | 'weekdays' | 'weekly';
+
+export interface RepeatRule {
+  frequency: RepeatFrequency;
+  interval: number; // Every N days (daily) or N weeks (weekly)
+  weekdays?: number[]; // 0 = Sunday ... 6 = Saturday, used by 'weekly'
+  until?: string; // Format: YYYY-MM-DD, inclusive
+  count?: number; // Total number of occurrences in the series
+}
+
+// Which occurrences an edit or delete of a repeating block applies to
+export type RepeatEditScope = 'this' | 'following' | 'all';
+
+// The block a task was first left unfinished in, kept when the task is carried over
+export interface TaskOrigin {
+  blockId: string;
+  blockTitle: string;
+  date: string; // Format: YYYY-MM-DD
+}
+
+export interface BlockTask {
+  id: string;
+  text: string;
+  isDone: boolean;
+  completedAt?: string; // ISO timestamp of when the task was ticked off
+  carriedFrom?: TaskOrigin;
+}
 
 export interface TimeBlockData {
   id: string;
@@ -13,21 +48,28 @@ export interface TimeBlockData {
   endTime: string;
   category: string;
   color: string;
-  tasks: string[];
+  tasks: BlockTask[];
   isActive: boolean;
   isCompleted: boolean;
   progress?: number;
+  repeat?: RepeatRule;
+  excludedDates?: string[]; // Series dates that were deleted or edited individually
+  seriesId?: string; // Set on occurrences of a repeating block
+  occurrenceDate?: string; // Original series date of an occurrence
 }
 
 interface TimeBlockProps {
   block: TimeBlockData;
   onPress: () => void;
   onStartFocus: () => void;
-  onDelete?: (blockId: string) => void;
-  onEdit?: (blockId: string, updatedBlock: Partial<TimeBlockData>) => void;
+  onDelete?: (blockId: string, scope?: RepeatEditScope) => void;
+  onEdit?: (blockId: string, updatedBlock: Partial<TimeBlockData>, scope?: RepeatEditScope) => void | Promise<boolean>; // false keeps the editor open
+  onToggleTask?: (blockId: string, taskId: string) => void;
+  onSaveAsTemplate?: (block: TimeBlockData) => void;
+  allBlocks?: TimeBlockData[]; // Marks the days that already have blocks in the date picker
 }
 
-export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEdit }: TimeBlockProps) {
+export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEdit, onToggleTask, onSaveAsTemplate, allBlocks }: TimeBlockProps) {
   const { colors } = useTheme();
   const [translateX] = useState(new Animated.Value(0));
   const [isSwipeActive, setIsSwipeActive] = useState(false);
@@ -35,11 +77,12 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
   const gestureRef = useRef(null);
   const screenWidth = Dimensions.get('window').width;
   const isWeb = Platform.OS === 'web';
+  const swipeActionsWidth = onSaveAsTemplate ? 180 : 120; // 60 per action button
   
   // Edit form state
   const [editTitle, setEditTitle] = useState(block.title);
   const [editDate, setEditDate] = useState(block.date);
-  const [editTasks, setEditTasks] = useState([...block.tasks]);
+  const [editTasks, setEditTasks] = useState(getTaskDrafts(block.tasks));
   const [editStartHour, setEditStartHour] = useState(12);
   const [editStartMinute, setEditStartMinute] = useState(0);
   const [editStartPeriod, setEditStartPeriod] = useState<'AM' | 'PM'>('AM');
@@ -48,6 +91,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
   const [editEndPeriod, setEditEndPeriod] = useState<'AM' | 'PM'>('PM');
   const [editCategory, setEditCategory] = useState(block.category);
   const [editColor, setEditColor] = useState(block.color);
+  const [editRepeat, setEditRepeat] = useState<RepeatRule | undefined>(block.repeat);
   const [categories, setCategories] = useState<BlockCategory[]>([]);
   
   // Dropdown states
@@ -117,50 +161,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
     return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(today.getDate() + 1);
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-
-    // Reset time for comparison
-    const blockDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const todayDate = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-    const tomorrowDate = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
-    const yesterdayDate = new Date(yesterday.getFullYear(), yesterday.getMonth(), yesterday.getDate());
-
-    if (blockDate.getTime() === todayDate.getTime()) {
-      return 'Today';
-    } else if (blockDate.getTime() === tomorrowDate.getTime()) {
-      return 'Tomorrow';
-    } else if (blockDate.getTime() === yesterdayDate.getTime()) {
-      return 'Yesterday';
-    } else {
-      return date.toLocaleDateString('en-US', { 
-        weekday: 'short', 
-        month: 'short', 
-        day: 'numeric' 
-      });
-    }
-  };
-
-  const generateDateOptions = () => {
-    const dates = [];
-    const today = new Date();
-    
-    // Add past 3 days, today, and next 14 days
-    for (let i = -3; i <= 14; i++) {
-      const date = new Date(today);
-      date.setDate(today.getDate() + i);
-      const dateString = date.toISOString().split('T')[0];
-      const label = formatDate(dateString);
-      dates.push({ value: dateString, label });
-    }
-    
-    return dates;
-  };
+  const formatDate = (dateString: string) => formatRelativeDate(dateString);
 
   const getStatusIcon = () => {
     if (block.isCompleted) {
@@ -178,12 +179,10 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
     return '0%';
   };
 
+  // An overnight block from yesterday is still running today
   const isBlockInPast = () => {
-    const blockDate = new Date(block.date);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    blockDate.setHours(0, 0, 0, 0);
-    return blockDate < today;
+    const lastDate = isOvernightBlock(block) ? addDays(block.date, 1) : block.date;
+    return lastDate < getTodayDateString();
   };
 
   // Web-compatible gesture handling
@@ -199,7 +198,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
       if (translationX < -80) {
         setIsSwipeActive(true);
         Animated.spring(translateX, {
-          toValue: -120,
+          toValue: -swipeActionsWidth,
           useNativeDriver: false,
           tension: 100,
           friction: 8,
@@ -229,28 +228,46 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
         [
           { text: 'Cancel', style: 'cancel' },
           { text: 'Edit', onPress: handleEdit },
-          { text: 'Delete', onPress: handleDelete, style: 'destructive' },
+          ...(onSaveAsTemplate ? [{ text: 'Save as Template', onPress: handleSaveAsTemplate }] : []),
+          { text: 'Delete', onPress: handleDelete, style: 'destructive' as const },
         ]
       );
     }
   };
 
+  const handleSaveAsTemplate = () => {
+    resetSwipe();
+    onSaveAsTemplate?.(block);
+  };
+
   const handleEdit = () => {
     setEditTitle(block.title);
     setEditDate(block.date);
-    setEditTasks([...block.tasks]);
+    setEditTasks(getTaskDrafts(block.tasks));
     setEditCategory(block.category);
     setEditColor(block.color);
+    setEditRepeat(block.repeat);
     resetSwipe();
     setIsEditModalVisible(true);
   };
 
-  const handleDelete = () => {
+  // Ask which occurrences of a repeating block an action applies to
+  const handleDelete = async () => {
     if (!onDelete) {
       Alert.alert('Error', 'Delete function not available');
       return;
     }
 
+    if (isRecurringOccurrence(block)) {
+      const scope = await askRepeatScope('Delete Repeating Block');
+      if (scope) {
+        onDelete(block.id, scope);
+      } else {
+        resetSwipe();
+      }
+      return;
+    }
+
     Alert.alert(
       'Delete Time Block',
       `Are you sure you want to delete "${block.title}"?`,
@@ -287,7 +304,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
     }
   };
 
-  const handleSaveEdit = () => {
+  const handleSaveEdit = async () => {
     if (!onEdit) {
       Alert.alert('Error', 'Edit function not available');
       return;
@@ -302,42 +319,58 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
     const startTime24 = formatTimeTo24Hour(editStartHour, editStartMinute, editStartPeriod);
     const endTime24 = formatTimeTo24Hour(editEndHour, editEndMinute, editEndPeriod);
     
-    const startMinutes = parseInt(startTime24.split(':')[0]) * 60 + parseInt(startTime24.split(':')[1]);
-    const endMinutes = parseInt(endTime24.split(':')[0]) * 60 + parseInt(endTime24.split(':')[1]);
-    
-    if (endMinutes <= startMinutes) {
-      Alert.alert('Error', 'End time must be after start time');
+    // An end time before the start time means the block runs past midnight
+    if (startTime24 === endTime24) {
+      Alert.alert('Error', 'End time must be different from start time');
       return;
     }
 
-    const filteredTasks = editTasks.filter(task => task.trim() !== '');
-    
-    onEdit(block.id, {
-      title: editTitle.trim(),
+    const changes = getBlockEditChanges(block, {
+      title: editTitle,
       date: editDate,
       startTime: startTime24,
       endTime: endTime24,
       category: editCategory,
       color: editColor,
-      tasks: filteredTasks,
+      tasks: editTasks,
+      repeat: editRepeat,
     });
 
-    setIsEditModalVisible(false);
+    if (isRecurringOccurrence(block)) {
+      const scope = await askRepeatScope('Save Repeating Block');
+      if (scope && await onEdit(block.id, changes, scope) !== false) {
+        setIsEditModalVisible(false);
+      }
+      return;
+    }
+
+    if (await onEdit(block.id, changes) !== false) {
+      setIsEditModalVisible(false);
+    }
   };
 
   const handleCancelEdit = () => {
     setEditTitle(block.title);
     setEditDate(block.date);
-    setEditTasks([...block.tasks]);
+    setEditTasks(getTaskDrafts(block.tasks));
     setEditCategory(block.category);
     setEditColor(block.color);
+    setEditRepeat(block.repeat);
     setActiveDropdown(null);
     setIsEditModalVisible(false);
   };
 
+  const handleToggleTask = (taskId: string) => {
+    if (isSwipeActive) {
+      resetSwipe();
+      return;
+    }
+    onToggleTask?.(block.id, taskId);
+  };
+
   const handleAddTask = () => {
     if (editTasks.length < 5) {
-      setEditTasks([...editTasks, '']);
+      setEditTasks([...editTasks, { text: '' }]);
     }
   };
 
@@ -350,7 +383,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
 
   const handleTaskChange = (index: number, value: string) => {
     const newTasks = [...editTasks];
-    newTasks[index] = value;
+    newTasks[index] = { ...newTasks[index], text: value };
     setEditTasks(newTasks);
   };
 
@@ -429,7 +462,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
       right: 0,
       top: 0,
       bottom: 0,
-      width: 120,
+      width: swipeActionsWidth,
       flexDirection: 'row',
       zIndex: 0,
     },
@@ -442,6 +475,9 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
     editButton: {
       backgroundColor: '#007AFF',
     },
+    templateButton: {
+      backgroundColor: '#8B4F9F',
+    },
     deleteButton: {
       backgroundColor: '#FF3B30',
     },
@@ -523,10 +559,33 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
       marginBottom: 12,
     },
     task: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 3,
+    },
+    taskCheckbox: {
+      width: 14,
+      height: 14,
+      borderRadius: 4,
+      borderWidth: 1.5,
+      borderColor: colors.textSecondary,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    taskCheckboxDone: {
+      borderColor: block.color,
+      backgroundColor: block.color,
+    },
+    taskText: {
       fontSize: 12,
       color: colors.textSecondary,
-      marginBottom: 2,
       lineHeight: 16,
+      flex: 1,
+    },
+    taskTextDone: {
+      textDecorationLine: 'line-through',
+      opacity: 0.6,
     },
     moreTasks: {
       fontSize: 11,
@@ -708,6 +767,9 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
       height: 32,
       borderRadius: 16,
     },
+    repeatSection: {
+      marginBottom: 20,
+    },
     tasksSection: {
       marginBottom: 20,
     },
@@ -864,8 +926,10 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
         <View style={styles.timeInfo}>
           <Text style={styles.timeText}>
             {formatTime12Hour(block.startTime)} - {formatTime12Hour(block.endTime)}
+            {isOvernightBlock(block) ? ' (+1)' : ''}
           </Text>
           <Text style={styles.dateText}>{formatDate(block.date)}</Text>
+          {(block.repeat || isRecurringOccurrence(block)) && <Repeat size={14} color={colors.textSecondary} />}
           {getStatusIcon()}
         </View>
         <TouchableOpacity 
@@ -882,8 +946,21 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
       
       {block.tasks.length > 0 && (
         <View style={styles.tasksContainer}>
-          {block.tasks.slice(0, 2).map((task, index) => (
-            <Text key={index} style={styles.task}>• {task}</Text>
+          {block.tasks.slice(0, 2).map((task) => (
+            <TouchableOpacity
+              key={task.id}
+              style={styles.task}
+              onPress={() => handleToggleTask(task.id)}
+              disabled={!onToggleTask}
+              activeOpacity={0.6}
+            >
+              <View style={[styles.taskCheckbox, task.isDone && styles.taskCheckboxDone]}>
+                {task.isDone && <Check size={10} color="white" strokeWidth={3} />}
+              </View>
+              <Text style={[styles.taskText, task.isDone && styles.taskTextDone]} numberOfLines={1}>
+                {task.carriedFrom ? '↪ ' : ''}{task.text}
+              </Text>
+            </TouchableOpacity>
           ))}
           {block.tasks.length > 2 && (
             <Text style={styles.moreTasks}>+{block.tasks.length - 2} more</Text>
@@ -914,6 +991,16 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
               <Edit size={20} color="white" />
               <Text style={styles.actionButtonText}>Edit</Text>
             </TouchableOpacity>
+            {onSaveAsTemplate && (
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.templateButton]}
+                onPress={handleSaveAsTemplate}
+                activeOpacity={0.8}
+              >
+                <BookmarkPlus size={20} color="white" />
+                <Text style={styles.actionButtonText}>Template</Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity 
               style={[styles.actionButton, styles.deleteButton]}
               onPress={handleDelete}
@@ -1040,7 +1127,13 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
                 </View>
 
                 {/* End Time */}
-                <Text style={styles.timeLabel}>End Time</Text>
+                <Text style={styles.timeLabel}>
+                  End Time
+                  {isOvernightBlock({
+                    startTime: formatTimeTo24Hour(editStartHour, editStartMinute, editStartPeriod),
+                    endTime: formatTimeTo24Hour(editEndHour, editEndMinute, editEndPeriod),
+                  }) ? ' (next day)' : ''}
+                </Text>
                 <View style={styles.timeRow}>
                   <View style={styles.timeDropdown}>
                     <TouchableOpacity 
@@ -1113,6 +1206,12 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
                 </View>
               </View>
 
+              {/* Repeat Section */}
+              <View style={styles.repeatSection}>
+                <Text style={styles.formLabel}>Repeat</Text>
+                <RepeatPicker value={editRepeat} onChange={setEditRepeat} startDate={editDate} />
+              </View>
+
               {/* Tasks Section */}
               <View style={styles.tasksSection}>
                 <Text style={styles.formLabel}>Tasks</Text>
@@ -1120,7 +1219,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
                   <View key={index} style={styles.taskRow}>
                     <TextInput
                       style={styles.taskInput}
-                      value={task}
+                      value={task.text}
                       onChangeText={(value) => handleTaskChange(index, value)}
                       placeholder={`Task ${index + 1}...`}
                       placeholderTextColor={colors.textSecondary}
@@ -1166,7 +1265,13 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
         </View>
 
         {/* Dropdown Modals */}
-        {renderDropdown('date', generateDateOptions(), editDate, setEditDate)}
+        <DatePicker
+          visible={activeDropdown === 'date'}
+          value={editDate}
+          blocks={allBlocks}
+          onClose={() => setActiveDropdown(null)}
+          onSelect={setEditDate}
+        />
         {renderDropdown('startHour', hours, editStartHour, setEditStartHour)}
         {renderDropdown('startMinute', minutes, editStartMinute, setEditStartMinute)}
         {renderDropdown('startPeriod', periods, editStartPeriod, setEditStartPeriod)}
@@ -1180,6 +1285,7 @@ export default function TimeBlock({ block, onPress, onStartFocus, onDelete, onEd
             setEditColor(selectedCategory.color);
           }
         })}
+        {isEditModalVisible && <ChoicePromptHost />}
       </Modal>
     </View>
   );
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface UndoSnackbarProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const AUTO_HIDE_MS = 5000;
+
+export default function UndoSnackbar({ message, onUndo, onDismiss }: UndoSnackbarProps) {
+  const { colors } = useTheme();
+  const insets = useSafeAreaInsets();
+
+  // Restart the countdown whenever a new change replaces the one on screen
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, AUTO_HIDE_MS);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  const styles = StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 16,
+      right: 16,
+      bottom: Math.max(insets.bottom, 16),
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: colors.text,
+      shadowColor: '#000',
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 8,
+      elevation: 6,
+    },
+    message: {
+      flex: 1,
+      fontSize: 14,
+      color: colors.background,
+    },
+    undoText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message} numberOfLines={2}>{message}</Text>
+      <TouchableOpacity onPress={onUndo}>
+        <Text style={styles.undoText}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,192 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, GestureResponderEvent } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getBlocksOnDate } from '@/utils/storage';
+import { getTimelineLayout } from '@/utils/timeline';
+import { minutesToTime } from '@/utils/blockTime';
+import { getTodayDateString, parseDateString } from '@/utils/date';
+
+interface WeekGridProps {
+  blocks: TimeBlockData[]; // Stored blocks; repeating ones are expanded for each day
+  dates: string[];
+  onBlockPress: (block: TimeBlockData) => void;
+  onSlotPress: (date: string, startTime: string) => void;
+}
+
+const HOUR_HEIGHT = 44;
+const GUTTER_WIDTH = 36;
+const SLOT_MINUTES = 30; // Empty space is tapped to the nearest half hour
+
+export default function WeekGrid({ blocks, dates, onBlockPress, onSlotPress }: WeekGridProps) {
+  const { colors } = useTheme();
+  const today = getTodayDateString();
+
+  const days = dates.map(date => ({ date, layout: getTimelineLayout(getBlocksOnDate(blocks, date), date) }));
+  const startHour = Math.min(...days.map(day => day.layout.startHour));
+  const endHour = Math.max(...days.map(day => day.layout.endHour));
+  const hours = Array.from({ length: endHour - startHour }, (_, i) => startHour + i);
+
+  // Helper function to turn minutes from midnight into a distance from the top of the grid
+  const toOffset = (minutes: number) => ((minutes - startHour * 60) / 60) * HOUR_HEIGHT;
+
+  // Helper function to turn a tap inside a day column into a start time
+  const handleColumnPress = (date: string) => (event: GestureResponderEvent) => {
+    const minutes = startHour * 60 + (event.nativeEvent.locationY / HOUR_HEIGHT) * 60;
+    const slot = Math.floor(minutes / SLOT_MINUTES) * SLOT_MINUTES;
+    onSlotPress(date, minutesToTime(Math.min(slot, endHour * 60 - SLOT_MINUTES)));
+  };
+
+  const formatHour = (hour: number) => {
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    return `${displayHour}${hour % 24 >= 12 ? 'p' : 'a'}`;
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 12,
+      paddingRight: 8,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      paddingLeft: GUTTER_WIDTH,
+      marginBottom: 8,
+    },
+    dayHeader: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    dayName: {
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    dayNumber: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: colors.text,
+      marginTop: 2,
+    },
+    todayNumber: {
+      color: colors.primary,
+    },
+    body: {
+      flexDirection: 'row',
+      height: (endHour - startHour) * HOUR_HEIGHT,
+    },
+    gutter: {
+      width: GUTTER_WIDTH,
+    },
+    hourLabel: {
+      position: 'absolute',
+      left: 0,
+      width: GUTTER_WIDTH - 6,
+      textAlign: 'right',
+      fontSize: 10,
+      color: colors.textSecondary,
+    },
+    hourLine: {
+      position: 'absolute',
+      left: GUTTER_WIDTH,
+      right: 0,
+      height: 1,
+      backgroundColor: colors.border,
+    },
+    dayColumn: {
+      flex: 1,
+      borderLeftWidth: 1,
+      borderLeftColor: colors.border,
+    },
+    todayColumn: {
+      backgroundColor: colors.primary + '0D',
+    },
+    block: {
+      position: 'absolute',
+      borderRadius: 4,
+      borderLeftWidth: 3,
+      paddingHorizontal: 2,
+      paddingVertical: 2,
+      overflow: 'hidden',
+    },
+    completedBlock: {
+      opacity: 0.5,
+    },
+    blockTitle: {
+      fontSize: 9,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        {dates.map(date => (
+          <View key={date} style={styles.dayHeader}>
+            <Text style={styles.dayName}>
+              {parseDateString(date).toLocaleDateString('en-US', { weekday: 'short' })}
+            </Text>
+            <Text style={[styles.dayNumber, date === today && styles.todayNumber]}>
+              {parseDateString(date).getDate()}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.body}>
+        {hours.map(hour => (
+          <React.Fragment key={hour}>
+            <Text style={[styles.hourLabel, { top: toOffset(hour * 60) - 6 }]}>{formatHour(hour)}</Text>
+            <View style={[styles.hourLine, { top: toOffset(hour * 60) }]} />
+          </React.Fragment>
+        ))}
+        <View style={styles.gutter} />
+
+        {days.map(({ date, layout }) => (
+          <TouchableOpacity
+            key={date}
+            style={[styles.dayColumn, date === today && styles.todayColumn]}
+            onPress={handleColumnPress(date)}
+            activeOpacity={1}
+          >
+            {layout.items.map(({ block, start, end, column, columnCount }) => {
+              const height = Math.max(toOffset(end) - toOffset(start) - 1, 12);
+              const left: `${number}%` = `${(column / columnCount) * 100}%`;
+              const width: `${number}%` = `${100 / columnCount}%`;
+
+              return (
+                <TouchableOpacity
+                  key={block.id}
+                  style={[
+                    styles.block,
+                    {
+                      top: toOffset(start),
+                      height,
+                      left,
+                      width,
+                      backgroundColor: block.color + '30',
+                      borderLeftColor: block.color,
+                    },
+                    block.isCompleted && styles.completedBlock,
+                  ]}
+                  onPress={() => onBlockPress(block)}
+                  activeOpacity={0.7}
+                >
+                  {height >= 20 && (
+                    <Text style={styles.blockTitle} numberOfLines={Math.max(1, Math.floor(height / 12) - 1)}>
+                      {block.title}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,168 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getHeatmapLevel } from '@/utils/analytics';
+import { addDays, getDateRange, getTodayDateString, getWeekday, parseDateString } from '@/utils/date';
+
+interface YearHeatmapProps {
+  year: number;
+  focusedByDate: Map<string, number>;
+  onDayPress: (date: string) => void;
+}
+
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+const LEVEL_OPACITY = ['', '40', '70', 'A8', ''];
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+export default function YearHeatmap({ year, focusedByDate, onDayPress }: YearHeatmapProps) {
+  const { colors } = useTheme();
+  const today = getTodayDateString();
+
+  const dates = getDateRange(`${year}-01-01`, `${year}-12-31`);
+  const maxMinutes = Math.max(0, ...dates.map(date => focusedByDate.get(date) ?? 0));
+  const totalMinutes = dates.reduce((total, date) => total + (focusedByDate.get(date) ?? 0), 0);
+  const activeDays = dates.filter(date => (focusedByDate.get(date) ?? 0) > 0).length;
+
+  // One column per week, starting on the Sunday on or before Jan 1. Days outside the year stay blank.
+  const firstSunday = addDays(dates[0], -getWeekday(dates[0]));
+  const weekCount = Math.ceil((getWeekday(dates[0]) + dates.length) / 7);
+  const weeks = Array.from({ length: weekCount }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstSunday, week * 7 + day))
+  );
+
+  // Label a column with its month when the month's 1st falls in that week
+  const getMonthLabel = (week: string[]) => {
+    const first = week.find(date => date.startsWith(`${year}-`) && date.endsWith('-01'));
+    return first ? parseDateString(first).toLocaleDateString('en-US', { month: 'short' }) : '';
+  };
+
+  // Helper function to get the cell color for a shade level
+  const getLevelColor = (level: number) => {
+    if (level === 0) return colors.border;
+    return colors.primary + LEVEL_OPACITY[level];
+  };
+
+  // Helper function to format minutes as hours, keeping one decimal for short totals
+  const formatHours = (minutes: number) => {
+    const hours = minutes / 60;
+    return `${hours >= 10 ? Math.round(hours) : Math.round(hours * 10) / 10}h`;
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 16,
+    },
+    summary: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 12,
+    },
+    body: {
+      flexDirection: 'row',
+    },
+    weekdayColumn: {
+      marginTop: 16,
+      marginRight: 6,
+    },
+    weekdayLabel: {
+      height: CELL_SIZE,
+      marginBottom: CELL_GAP,
+      fontSize: 9,
+      color: colors.textSecondary,
+      lineHeight: CELL_SIZE,
+    },
+    weekColumn: {
+      marginRight: CELL_GAP,
+    },
+    monthLabelSlot: {
+      height: 16,
+      width: CELL_SIZE,
+    },
+    monthLabel: {
+      position: 'absolute',
+      width: CELL_SIZE * 3,
+      fontSize: 9,
+      color: colors.textSecondary,
+    },
+    cell: {
+      width: CELL_SIZE,
+      height: CELL_SIZE,
+      borderRadius: 2,
+      marginBottom: CELL_GAP,
+    },
+    todayCell: {
+      borderWidth: 1,
+      borderColor: colors.text,
+    },
+    blankCell: {
+      backgroundColor: 'transparent',
+    },
+    legend: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      gap: CELL_GAP,
+      marginTop: 8,
+    },
+    legendText: {
+      fontSize: 10,
+      color: colors.textSecondary,
+      marginHorizontal: 4,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.summary}>
+        {totalMinutes > 0
+          ? `${formatHours(totalMinutes)} focused over ${activeDays} ${activeDays === 1 ? 'day' : 'days'} in ${year}`
+          : `No focus time logged in ${year}`}
+      </Text>
+
+      <View style={styles.body}>
+        <View style={styles.weekdayColumn}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+          ))}
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {weeks.map(week => (
+            <View key={week[0]} style={styles.weekColumn}>
+              <View style={styles.monthLabelSlot}>
+                <Text style={styles.monthLabel} numberOfLines={1}>{getMonthLabel(week)}</Text>
+              </View>
+              {week.map(date => {
+                if (!date.startsWith(`${year}-`)) {
+                  return <View key={date} style={[styles.cell, styles.blankCell]} />;
+                }
+
+                const level = getHeatmapLevel(focusedByDate.get(date) ?? 0, maxMinutes);
+                return (
+                  <TouchableOpacity
+                    key={date}
+                    style={[styles.cell, { backgroundColor: getLevelColor(level) }, date === today && styles.todayCell]}
+                    onPress={() => onDayPress(date)}
+                  />
+                );
+              })}
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Less</Text>
+        {[0, 1, 2, 3, 4].map(level => (
+          <View key={level} style={[styles.cell, { backgroundColor: getLevelColor(level), marginBottom: 0 }]} />
+        ))}
+        <Text style={styles.legendText}>More</Text>
+      </View>
+    </View>
+  );
+}
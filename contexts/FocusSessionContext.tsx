@@ -0,0 +1,240 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TimeBlockData } from '@/components/TimeBlock';
+import {
+  loadTimeBlocks,
+  saveTimeBlocks,
+  loadSettings,
+  recordSessionEvents,
+  createSessionEvent,
+  SessionEvent,
+} from '@/utils/storage';
+import { applyBlockUpdate } from '@/utils/recurrence';
+import { getTaskProgress, getTaskToggleChanges } from '@/utils/tasks';
+import { getBlockDurationMinutes } from '@/utils/blockTime';
+import {
+  FocusSession,
+  createFocusSession,
+  loadFocusSession,
+  saveFocusSession,
+  clearFocusSession,
+  getCurrentInterval,
+} from '@/utils/focusSession';
+
+interface FocusSessionContextType {
+  isLoaded: boolean;
+  isInFocusMode: boolean;
+  activeBlock: TimeBlockData | null;
+  session: FocusSession | null;
+  startFocus: (block: TimeBlockData) => Promise<void>;
+  resumeFocus: () => Promise<void>;
+  exitFocusMode: () => void;
+  updateSession: (session: FocusSession, events: SessionEvent[]) => Promise<void>;
+  toggleTask: (taskId: string) => Promise<void>;
+  completeFocus: () => Promise<TimeBlockData | null>;
+  endFocus: () => Promise<TimeBlockData | null>;
+  reloadActiveBlock: () => Promise<void>;
+}
+
+const FocusSessionContext = createContext<FocusSessionContextType | undefined>(undefined);
+
+export const FOCUS_MODE_STORAGE_KEY = 'isInFocusMode';
+
+export function FocusSessionProvider({ children }: { children: ReactNode }) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isInFocusMode, setIsInFocusMode] = useState(false);
+  const [activeBlock, setActiveBlock] = useState<TimeBlockData | null>(null);
+  const [session, setSession] = useState<FocusSession | null>(null);
+
+  useEffect(() => {
+    loadFocusState();
+  }, []);
+
+  const loadFocusState = async () => {
+    try {
+      const [focusMode, blocks, savedSession] = await Promise.all([
+        AsyncStorage.getItem(FOCUS_MODE_STORAGE_KEY),
+        loadTimeBlocks(),
+        loadFocusSession(),
+      ]);
+      const currentActive = blocks.find(block => block.isActive) ?? null;
+      const currentSession = currentActive && savedSession?.blockId === currentActive.id ? savedSession : null;
+      const inFocus = focusMode === 'true' && currentActive !== null;
+
+      // Focus mode can be on without a saved timer, e.g. after updating from an older version
+      if (inFocus && !currentSession) {
+        await beginSession(currentActive);
+      } else {
+        setSession(currentSession);
+      }
+      setActiveBlock(currentActive);
+      setIsInFocusMode(inFocus);
+    } catch (error) {
+      console.error('Error loading focus state:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  // Listeners update right away, storage catches up in the background
+  const setFocusMode = (inFocus: boolean) => {
+    setIsInFocusMode(inFocus);
+    AsyncStorage.setItem(FOCUS_MODE_STORAGE_KEY, inFocus.toString())
+      .catch(error => console.error('Error saving focus mode:', error));
+  };
+
+  const logEvents = (currentSession: FocusSession, block: TimeBlockData, events: SessionEvent[]) => {
+    return recordSessionEvents(currentSession.id, block, getBlockDurationMinutes(block), events);
+  };
+
+  // Start a new timer for the block and remember it across restarts
+  const beginSession = async (block: TimeBlockData) => {
+    const settings = await loadSettings();
+    const newSession = createFocusSession(block.id, getBlockDurationMinutes(block), Date.now(), settings.pomodoro);
+    setSession(newSession);
+    await saveFocusSession(newSession);
+    await logEvents(newSession, block, [createSessionEvent('start', newSession.startedAt)]);
+  };
+
+  // A session that ran out while the app was closed completes at its end time, not when noticed
+  const finishSession = async (block: TimeBlockData, type: 'complete' | 'end') => {
+    if (session) {
+      const at = type === 'complete' ? Math.min(Date.now(), session.endsAt) : Date.now();
+      const interval = getCurrentInterval(session);
+      const events = type === 'complete' && interval
+        ? [createSessionEvent('intervalComplete', at, { interval: interval.type, nextStarted: false }), createSessionEvent(type, at)]
+        : [createSessionEvent(type, at)];
+      await logEvents(session, block, events);
+    }
+    setSession(null);
+    await clearFocusSession();
+  };
+
+  // Save changes to the active block, which may be an occurrence of a repeating block
+  const saveActiveBlock = async (block: TimeBlockData, changes: Partial<TimeBlockData>) => {
+    const blocks = await loadTimeBlocks();
+    await saveTimeBlocks(applyBlockUpdate(blocks, block.id, changes));
+  };
+
+  const startFocus = async (block: TimeBlockData) => {
+    const blocks = await loadTimeBlocks();
+
+    // Set this block as active and deactivate others
+    const updatedBlocks = applyBlockUpdate(
+      blocks.map(b => ({ ...b, isActive: false })),
+      block.id,
+      { isActive: true }
+    );
+    const startedBlock = updatedBlocks.find(b => b.id === block.id) ?? { ...block, isActive: true };
+
+    await saveTimeBlocks(updatedBlocks);
+    await beginSession(startedBlock);
+    setActiveBlock(startedBlock);
+    setFocusMode(true);
+  };
+
+  // A saved timer keeps its remaining time, and stays paused until resumed in the timer
+  const resumeFocus = async () => {
+    if (!activeBlock) return;
+
+    if (!session || session.blockId !== activeBlock.id) {
+      await beginSession(activeBlock);
+    }
+    setFocusMode(true);
+  };
+
+  // Keep the block active for resuming later
+  const exitFocusMode = () => setFocusMode(false);
+
+  const updateSession = async (updatedSession: FocusSession, events: SessionEvent[]) => {
+    setSession(updatedSession);
+    await saveFocusSession(updatedSession);
+    if (activeBlock) {
+      await logEvents(updatedSession, activeBlock, events);
+    }
+  };
+
+  const toggleTask = async (taskId: string) => {
+    if (!activeBlock) return;
+
+    try {
+      const changes = getTaskToggleChanges(activeBlock, taskId);
+      setActiveBlock({ ...activeBlock, ...changes });
+      await saveActiveBlock(activeBlock, changes);
+    } catch (error) {
+      console.error('Error updating task:', error);
+    }
+  };
+
+  const completeFocus = async () => {
+    if (!activeBlock) return null;
+
+    const block = activeBlock;
+    setActiveBlock(null);
+    setFocusMode(false);
+    await saveActiveBlock(block, {
+      isActive: false,
+      isCompleted: true,
+      progress: block.tasks.length > 0 ? getTaskProgress(block.tasks) : 100,
+    });
+    await finishSession(block, 'complete');
+    return block;
+  };
+
+  const endFocus = async () => {
+    if (!activeBlock) return null;
+
+    const block = activeBlock;
+    setActiveBlock(null);
+    setFocusMode(false);
+    await saveActiveBlock(block, {
+      isActive: false,
+      progress: block.tasks.length > 0 ? getTaskProgress(block.tasks) : block.progress, // Progress reflects the ticked tasks
+    });
+    await finishSession(block, 'end');
+    return block;
+  };
+
+  // Pick up edits made to the active block on other screens
+  const reloadActiveBlock = async () => {
+    try {
+      const blocks = await loadTimeBlocks();
+      const currentActive = blocks.find(block => block.isActive) ?? null;
+      setActiveBlock(currentActive);
+      if (!currentActive) {
+        setFocusMode(false);
+      }
+    } catch (error) {
+      console.error('Error reloading active block:', error);
+    }
+  };
+
+  return (
+    <FocusSessionContext.Provider
+      value={{
+        isLoaded,
+        isInFocusMode,
+        activeBlock,
+        session,
+        startFocus,
+        resumeFocus,
+        exitFocusMode,
+        updateSession,
+        toggleTask,
+        completeFocus,
+        endFocus,
+        reloadActiveBlock,
+      }}
+    >
+      {children}
+    </FocusSessionContext.Provider>
+  );
+}
+
+export function useFocusSession() {
+  const context = useContext(FocusSessionContext);
+  if (context === undefined) {
+    throw new Error('useFocusSession must be used within a FocusSessionProvider');
+  }
+  return context;
+}
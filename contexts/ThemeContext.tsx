@@ -4,6 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 interface ThemeContextType {
   isDarkMode: boolean;
   toggleDarkMode: () => void;
+  setDarkMode: (isDark: boolean) => void;
   colors: {
     background: string;
     surface: string;
@@ -49,7 +50,7 @@ const darkColors = {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
-const THEME_STORAGE_KEY = 'app_theme_mode';
+export const THEME_STORAGE_KEY = 'app_theme_mode';
 
 export function ThemeProvider({ children }: { children: ReactNode }) {
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -69,20 +70,21 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const toggleDarkMode = async () => {
+  const setDarkMode = async (isDark: boolean) => {
     try {
-      const newMode = !isDarkMode;
-      setIsDarkMode(newMode);
-      await AsyncStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(newMode));
+      setIsDarkMode(isDark);
+      await AsyncStorage.setItem(THEME_STORAGE_KEY, JSON.stringify(isDark));
     } catch (error) {
       console.error('Error saving theme:', error);
     }
   };
 
+  const toggleDarkMode = () => setDarkMode(!isDarkMode);
+
   const colors = isDarkMode ? darkColors : lightColors;
 
   return (
-    <ThemeContext.Provider value={{ isDarkMode, toggleDarkMode, colors }}>
+    <ThemeContext.Provider value={{ isDarkMode, toggleDarkMode, setDarkMode, colors }}>
       {children}
     </ThemeContext.Provider>
   );
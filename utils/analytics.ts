@@ -0,0 +1,178 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { FocusSessionRecord, getBlocksInDateRange, getFocusedMinutes } from '@/utils/storage';
+import { MINUTES_PER_DAY, timeToMinutes, getBlockDurationMinutes } from '@/utils/blockTime';
+
+export interface DayStats {
+  date: string;
+  blocks: TimeBlockData[];
+  totalBlocks: number;
+  completedBlocks: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+  focusedMinutes: number;
+}
+
+export interface CategoryStats {
+  category: string;
+  color: string;
+  plannedMinutes: number;
+  completedMinutes: number;
+  focusedMinutes: number;
+}
+
+export interface WeekStats {
+  days: DayStats[];
+  categories: CategoryStats[];
+  totalBlocks: number;
+  completedBlocks: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+  focusedMinutes: number;
+  hasFocusData: boolean; // False when no block in the week was run in focus mode
+}
+
+// Share of blocks completed, as a whole percentage. An empty week is 0%, not NaN.
+export const getCompletionRate = (completedBlocks: number, totalBlocks: number): number => {
+  return totalBlocks > 0 ? Math.round((completedBlocks / totalBlocks) * 100) : 0;
+};
+
+// Stats for the given consecutive dates, from the blocks (and repeating occurrences) planned on them.
+// Focus time comes from the session log, matched to blocks by id.
+export const getWeekStats = (
+  blocks: TimeBlockData[],
+  sessions: FocusSessionRecord[],
+  dates: string[],
+  now: number = Date.now()
+): WeekStats => {
+  const weekBlocks = dates.length > 0 ? getBlocksInDateRange(blocks, dates[0], dates[dates.length - 1]) : [];
+
+  const focusedByBlock = new Map<string, number>();
+  sessions.forEach(session => {
+    focusedByBlock.set(session.blockId, (focusedByBlock.get(session.blockId) ?? 0) + getFocusedMinutes(session, now));
+  });
+
+  const categoryMap = new Map<string, CategoryStats>();
+  const days: DayStats[] = dates.map(date => ({
+    date,
+    blocks: [],
+    totalBlocks: 0,
+    completedBlocks: 0,
+    plannedMinutes: 0,
+    completedMinutes: 0,
+    focusedMinutes: 0,
+  }));
+
+  weekBlocks.forEach(block => {
+    const dayIndex = days.findIndex(d => d.date === block.date);
+    if (dayIndex === -1) return;
+    const day = days[dayIndex];
+
+    const planned = getBlockDurationMinutes(block);
+    const completed = block.isCompleted ? planned : 0;
+    const focused = focusedByBlock.get(block.id) ?? 0;
+
+    // Time after midnight in an overnight block counts towards the next day
+    const plannedAfterMidnight = Math.max(0, timeToMinutes(block.startTime) + planned - MINUTES_PER_DAY);
+    const nextDay = days[dayIndex + 1];
+    const nextDayShare = nextDay ? plannedAfterMidnight : 0;
+
+    day.blocks.push(block);
+    day.totalBlocks++;
+    day.completedBlocks += block.isCompleted ? 1 : 0;
+    day.plannedMinutes += planned - nextDayShare;
+    day.completedMinutes += block.isCompleted ? completed - nextDayShare : 0;
+    day.focusedMinutes += focused;
+    if (nextDay) {
+      nextDay.plannedMinutes += nextDayShare;
+      nextDay.completedMinutes += block.isCompleted ? nextDayShare : 0;
+    }
+
+    const category = categoryMap.get(block.category) ?? {
+      category: block.category,
+      color: block.color,
+      plannedMinutes: 0,
+      completedMinutes: 0,
+      focusedMinutes: 0,
+    };
+    category.plannedMinutes += planned;
+    category.completedMinutes += completed;
+    category.focusedMinutes += focused;
+    categoryMap.set(block.category, category);
+  });
+
+  const sum = (key: keyof Omit<DayStats, 'date' | 'blocks'>) => days.reduce((acc, day) => acc + day[key], 0);
+
+  return {
+    days,
+    categories: Array.from(categoryMap.values()).sort((a, b) => b.plannedMinutes - a.plannedMinutes),
+    totalBlocks: sum('totalBlocks'),
+    completedBlocks: sum('completedBlocks'),
+    plannedMinutes: sum('plannedMinutes'),
+    completedMinutes: sum('completedMinutes'),
+    focusedMinutes: sum('focusedMinutes'),
+    hasFocusData: weekBlocks.some(block => focusedByBlock.has(block.id)),
+  };
+};
+
+// Day with the most completed blocks, ties going to the day with more completed time
+export const getMostProductiveDay = (stats: WeekStats): DayStats | null => {
+  return stats.days.reduce<DayStats | null>((best, day) => {
+    if (day.completedBlocks === 0) return best;
+    if (!best
+      || day.completedBlocks > best.completedBlocks
+      || (day.completedBlocks === best.completedBlocks && day.completedMinutes > best.completedMinutes)) {
+      return day;
+    }
+    return best;
+  }, null);
+};
+
+// Hour of the day in which most completed blocks started, e.g. 9 for 9:00-10:00
+export const getFavoriteStartHour = (stats: WeekStats): number | null => {
+  const counts = new Map<number, number>();
+  stats.days.forEach(day => {
+    day.blocks
+      .filter(block => block.isCompleted)
+      .forEach(block => {
+        const hour = Number(block.startTime.split(':')[0]);
+        counts.set(hour, (counts.get(hour) ?? 0) + 1);
+      });
+  });
+
+  let favorite: number | null = null;
+  counts.forEach((count, hour) => {
+    if (favorite === null || count > counts.get(favorite)! || (count === counts.get(favorite) && hour < favorite)) {
+      favorite = hour;
+    }
+  });
+  return favorite;
+};
+
+// Longest run of consecutive days in which every planned block was completed
+export const getLongestCompletedStreak = (stats: WeekStats): number => {
+  let longest = 0;
+  let current = 0;
+  stats.days.forEach(day => {
+    current = day.totalBlocks > 0 && day.completedBlocks === day.totalBlocks ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+};
+
+// Focused minutes per calendar day, from the day each session was started
+export const getFocusedMinutesByDate = (
+  sessions: FocusSessionRecord[],
+  now: number = Date.now()
+): Map<string, number> => {
+  const byDate = new Map<string, number>();
+  sessions.forEach(session => {
+    byDate.set(session.date, (byDate.get(session.date) ?? 0) + getFocusedMinutes(session, now));
+  });
+  return byDate;
+};
+
+// Heatmap shade from 0 (nothing) to 4 (the busiest day), relative to the busiest day shown
+export const getHeatmapLevel = (minutes: number, maxMinutes: number): number => {
+  if (minutes <= 0 || maxMinutes <= 0) return 0;
+  return Math.min(4, Math.ceil((minutes / maxMinutes) * 4));
+};
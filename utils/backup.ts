@@ -0,0 +1,298 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TimeBlockData } from '@/components/TimeBlock';
+import { THEME_STORAGE_KEY } from '@/contexts/ThemeContext';
+import {
+  BLOCKS_KEY,
+  CATEGORIES_KEY,
+  REFLECTIONS_KEY,
+  SETTINGS_KEY,
+  AppSettings,
+  BlockCategory,
+  DailyReflection,
+  FocusSessionRecord,
+  InboxTask,
+  BlockTemplate,
+  DayTemplate,
+  DayTemplateBlock,
+  loadTimeBlocks,
+  saveTimeBlocks,
+  loadCategories,
+  saveCategories,
+  loadReflections,
+  saveReflections,
+  loadSettings,
+  saveSettings,
+  loadSessions,
+  saveSessions,
+  loadInboxTasks,
+  saveInboxTasks,
+  loadTemplates,
+  saveTemplates,
+  loadDayTemplates,
+  saveDayTemplates,
+} from '@/utils/storage';
+import { getTodayDateString } from '@/utils/date';
+import { CURRENT_SCHEMA_VERSION, isRecord, migrateStoredData } from '@/utils/migrations';
+import { shareTextFile } from '@/utils/files';
+
+export const BACKUP_FORMAT = 'focusnet-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  timeBlocks: TimeBlockData[];
+  categories: BlockCategory[];
+  reflections: DailyReflection[];
+  sessions: FocusSessionRecord[];
+  inboxTasks: InboxTask[];
+  templates: BlockTemplate[];
+  dayTemplates: DayTemplate[];
+  settings: AppSettings | null;
+  isDarkMode: boolean | null;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Layout of this file
+  schemaVersion: number; // Storage schema the data was written with
+  exportedAt: string;
+  data: BackupData;
+}
+
+export interface BackupCounts {
+  blocks: number;
+  categories: number;
+  reflections: number;
+  sessions: number;
+  inboxTasks: number;
+  templates: number;
+  dayTemplates: number;
+  hasSettings: boolean;
+  hasTheme: boolean;
+}
+
+// 'merge' keeps current data and adds what is missing, 'replace' overwrites everything
+export type RestoreMode = 'merge' | 'replace';
+
+export const createBackup = async (): Promise<BackupFile> => {
+  const [timeBlocks, categories, reflections, sessions, inboxTasks, templates, dayTemplates, settings, theme] = await Promise.all([
+    loadTimeBlocks(),
+    loadCategories(),
+    loadReflections(),
+    loadSessions(),
+    loadInboxTasks(),
+    loadTemplates(),
+    loadDayTemplates(),
+    loadSettings(),
+    AsyncStorage.getItem(THEME_STORAGE_KEY),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      timeBlocks,
+      categories,
+      reflections,
+      sessions,
+      inboxTasks,
+      templates,
+      dayTemplates,
+      settings,
+      isDarkMode: theme !== null ? JSON.parse(theme) : null,
+    },
+  };
+};
+
+// Share a backup file and return what it contains, or null when the device can't share it
+export const exportBackup = async (): Promise<BackupCounts | null> => {
+  const backup = await createBackup();
+  const fileName = `focusnet-backup-${getTodayDateString()}.json`;
+  const isShared = await shareTextFile(fileName, JSON.stringify(backup, null, 2), 'application/json');
+  return isShared ? getBackupCounts(backup) : null;
+};
+
+// Helper function to check that every item has the listed string fields. The fields are the
+// ones the app relies on, so the rest of each item is taken as stored.
+const hasStringFields = <T>(items: unknown, fields: (keyof T & string)[]): items is T[] => {
+  return Array.isArray(items) && items.every(item =>
+    isRecord(item) && fields.every(field => typeof item[field] === 'string')
+  );
+};
+
+// Helper function to check the settings the app can't fill in with defaults
+const isSettings = (value: unknown): value is AppSettings => {
+  return isRecord(value) && isRecord(value.workingHours);
+};
+
+// Parse and validate a backup file, upgrading data from older schema versions.
+// Throws an Error with a user-facing message when the file can't be used.
+export const parseBackup = (contents: string): BackupFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT || !isRecord(parsed.data)) {
+    throw new Error('The file is not a FocusNest backup.');
+  }
+  const { version, schemaVersion, exportedAt } = parsed;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) {
+    throw new Error('The backup was created by a newer version of the app. Please update the app first.');
+  }
+  if (typeof schemaVersion !== 'number' || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('The backup data is newer than this version of the app. Please update the app first.');
+  }
+
+  // Backups from before the inbox and templates existed have no inboxTasks, templates or dayTemplates
+  const { sessions = [], inboxTasks = [], templates = [], dayTemplates = [], isDarkMode = null } = parsed.data;
+
+  // Data from older schema versions is upgraded first, so it's checked in the current format
+  const {
+    [BLOCKS_KEY]: timeBlocks = [],
+    [CATEGORIES_KEY]: categories = [],
+    [REFLECTIONS_KEY]: reflections = [],
+    [SETTINGS_KEY]: settings = null,
+  } = migrateStoredData({
+    [BLOCKS_KEY]: parsed.data.timeBlocks,
+    [CATEGORIES_KEY]: parsed.data.categories,
+    [REFLECTIONS_KEY]: parsed.data.reflections,
+    [SETTINGS_KEY]: parsed.data.settings,
+  }, schemaVersion);
+
+  if (!hasStringFields<TimeBlockData>(timeBlocks, ['id', 'title', 'date', 'startTime', 'endTime'])) {
+    throw new Error('The backup contains invalid time blocks.');
+  }
+  if (!hasStringFields<BlockCategory>(categories, ['id', 'name', 'color'])) {
+    throw new Error('The backup contains invalid categories.');
+  }
+  if (!hasStringFields<DailyReflection>(reflections, ['date', 'blockId', 'reflection'])) {
+    throw new Error('The backup contains invalid reflections.');
+  }
+  if (!hasStringFields<FocusSessionRecord>(sessions, ['id', 'blockId', 'date']) || !sessions.every(session => Array.isArray(session.events))) {
+    throw new Error('The backup contains invalid focus sessions.');
+  }
+  if (!hasStringFields<InboxTask>(inboxTasks, ['id', 'text'])) {
+    throw new Error('The backup contains invalid inbox tasks.');
+  }
+  if (!hasStringFields<BlockTemplate>(templates, ['id', 'name', 'title', 'category']) || !templates.every(template => Array.isArray(template.tasks))) {
+    throw new Error('The backup contains invalid templates.');
+  }
+  if (!hasStringFields<DayTemplate>(dayTemplates, ['id', 'name']) || !dayTemplates.every(template => hasStringFields<DayTemplateBlock>(template.blocks, ['title', 'startTime']))) {
+    throw new Error('The backup contains invalid day templates.');
+  }
+  if (settings !== null && !isSettings(settings)) {
+    throw new Error('The backup contains invalid settings.');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof exportedAt === 'string' ? exportedAt : '',
+    data: {
+      timeBlocks,
+      categories,
+      reflections,
+      sessions,
+      inboxTasks,
+      templates,
+      dayTemplates,
+      settings,
+      isDarkMode: typeof isDarkMode === 'boolean' ? isDarkMode : null,
+    },
+  };
+};
+
+export const getBackupCounts = (backup: BackupFile): BackupCounts => ({
+  blocks: backup.data.timeBlocks.length,
+  categories: backup.data.categories.length,
+  reflections: backup.data.reflections.length,
+  sessions: backup.data.sessions.length,
+  inboxTasks: backup.data.inboxTasks.length,
+  templates: backup.data.templates.length,
+  dayTemplates: backup.data.dayTemplates.length,
+  hasSettings: backup.data.settings !== null,
+  hasTheme: backup.data.isDarkMode !== null,
+});
+
+// Write a parsed backup to storage and return what was added.
+// The theme is applied by the caller through ThemeContext so the UI updates with it.
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<BackupCounts> => {
+  const { timeBlocks, categories, reflections, sessions, inboxTasks, templates, dayTemplates, settings } = backup.data;
+
+  if (mode === 'replace') {
+    await saveTimeBlocks(timeBlocks);
+    await saveCategories(categories);
+    await saveReflections(reflections);
+    await saveSessions(sessions);
+    await saveInboxTasks(inboxTasks);
+    await saveTemplates(templates);
+    await saveDayTemplates(dayTemplates);
+    if (settings) await saveSettings(settings);
+    return getBackupCounts(backup);
+  }
+
+  const [
+    existingBlocks,
+    existingCategories,
+    existingReflections,
+    existingSessions,
+    existingInboxTasks,
+    existingTemplates,
+    existingDayTemplates,
+  ] = await Promise.all([
+    loadTimeBlocks(),
+    loadCategories(),
+    loadReflections(),
+    loadSessions(),
+    loadInboxTasks(),
+    loadTemplates(),
+    loadDayTemplates(),
+  ]);
+
+  // Items already on the device win over their copies in the backup
+  const blockIds = new Set(existingBlocks.map(block => block.id));
+  const newBlocks = timeBlocks.filter(block => !blockIds.has(block.id));
+
+  const categoryNames = new Set(existingCategories.map(category => category.name.toLowerCase()));
+  const newCategories = categories.filter(category => !categoryNames.has(category.name.toLowerCase()));
+
+  const reflectionKeys = new Set(existingReflections.map(reflection => `${reflection.date}|${reflection.blockId}`));
+  const newReflections = reflections.filter(reflection => !reflectionKeys.has(`${reflection.date}|${reflection.blockId}`));
+
+  const sessionIds = new Set(existingSessions.map(session => session.id));
+  const newSessions = sessions.filter(session => !sessionIds.has(session.id));
+
+  const inboxTaskIds = new Set(existingInboxTasks.map(task => task.id));
+  const newInboxTasks = inboxTasks.filter(task => !inboxTaskIds.has(task.id));
+
+  const templateIds = new Set(existingTemplates.map(template => template.id));
+  const newTemplates = templates.filter(template => !templateIds.has(template.id));
+
+  const dayTemplateIds = new Set(existingDayTemplates.map(template => template.id));
+  const newDayTemplates = dayTemplates.filter(template => !dayTemplateIds.has(template.id));
+
+  await saveTimeBlocks([...existingBlocks, ...newBlocks]);
+  await saveCategories([...existingCategories, ...newCategories]);
+  await saveReflections([...existingReflections, ...newReflections]);
+  await saveSessions([...existingSessions, ...newSessions]);
+  await saveInboxTasks([...existingInboxTasks, ...newInboxTasks]);
+  await saveTemplates([...existingTemplates, ...newTemplates]);
+  await saveDayTemplates([...existingDayTemplates, ...newDayTemplates]);
+
+  return {
+    blocks: newBlocks.length,
+    categories: newCategories.length,
+    reflections: newReflections.length,
+    sessions: newSessions.length,
+    inboxTasks: newInboxTasks.length,
+    templates: newTemplates.length,
+    dayTemplates: newDayTemplates.length,
+    hasSettings: false,
+    hasTheme: false,
+  };
+};
@@ -0,0 +1,84 @@
+import { TimeBlockData, BlockTask, RepeatRule, RepeatEditScope } from '@/components/TimeBlock';
+import { showChoicePrompt } from '@/utils/choicePrompt';
+import { resolveBlockConflicts } from '@/utils/conflicts';
+import { createTask, getTaskProgress } from '@/utils/tasks';
+
+// A checklist row of an edit form. Rows loaded from a block keep their task's id, new rows have none.
+export interface TaskDraft {
+  id?: string;
+  text: string;
+}
+
+// What an edit form collects
+export interface BlockEditFields {
+  title: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  category: string;
+  color: string;
+  tasks: TaskDraft[];
+  repeat?: RepeatRule;
+}
+
+// Checklist rows for editing a block's tasks
+export const getTaskDrafts = (tasks: BlockTask[]): TaskDraft[] => tasks.map(({ id, text }) => ({ id, text }));
+
+// Ask which occurrences of a repeating block an edit or delete applies to. Resolves null on cancel.
+export const askRepeatScope = (title: string): Promise<RepeatEditScope | null> =>
+  showChoicePrompt<RepeatEditScope>(title, 'This block is part of a repeating series.', [
+    { label: 'This occurrence', value: 'this' },
+    { label: 'This and following', value: 'following' },
+    { label: 'All occurrences', value: 'all' },
+  ]);
+
+// Turn the edit form's fields into changes for applyBlockUpdate
+export const getBlockEditChanges = (block: TimeBlockData, fields: BlockEditFields): Partial<TimeBlockData> => {
+  // Rows that came from the block keep their task, so its id and done state survive a rename
+  const tasks = fields.tasks
+    .map(draft => ({ ...draft, text: draft.text.trim() }))
+    .filter(draft => draft.text !== '')
+    .map(draft => {
+      const existing = block.tasks.find(task => task.id === draft.id);
+      return existing ? { ...existing, text: draft.text } : createTask(draft.text);
+    });
+
+  const changes: Partial<TimeBlockData> = {
+    title: fields.title.trim(),
+    date: fields.date,
+    startTime: fields.startTime,
+    endTime: fields.endTime,
+    category: fields.category,
+    color: fields.color,
+    tasks,
+  };
+
+  if (tasks.length > 0 && !block.isCompleted) {
+    changes.progress = getTaskProgress(tasks);
+  }
+
+  // Only touch the rule when it was changed, so editing an occurrence keeps its series intact
+  if (JSON.stringify(fields.repeat) !== JSON.stringify(block.repeat)) {
+    changes.repeat = fields.repeat;
+  }
+
+  return changes;
+};
+
+// Check an edit against the other blocks. Resolves the changes with the time the user picked,
+// or null when they back out.
+export const resolveEditConflicts = async (
+  blocks: TimeBlockData[],
+  block: TimeBlockData,
+  changes: Partial<TimeBlockData>
+): Promise<Partial<TimeBlockData> | null> => {
+  // Only a new time can create a clash, so other edits skip the check
+  const isRescheduled = (changes.date ?? block.date) !== block.date
+    || (changes.startTime ?? block.startTime) !== block.startTime
+    || (changes.endTime ?? block.endTime) !== block.endTime;
+  if (!isRescheduled) return changes;
+
+  const resolvedBlock = await resolveBlockConflicts(blocks, { ...block, ...changes });
+  if (!resolvedBlock) return null;
+  return { ...changes, startTime: resolvedBlock.startTime, endTime: resolvedBlock.endTime };
+};
@@ -0,0 +1,51 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+type BlockTimes = Pick<TimeBlockData, 'startTime' | 'endTime'>;
+
+// Helper function to convert HH:MM to minutes since midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Helper function to convert minutes since midnight to HH:MM, wrapping past midnight
+export const minutesToTime = (totalMinutes: number): string => {
+  const wrapped = ((totalMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  const minutes = wrapped % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+export const addMinutesToTime = (time: string, minutes: number): string => {
+  return minutesToTime(timeToMinutes(time) + minutes);
+};
+
+// A block whose end time is earlier than its start time ends on the next day, e.g. 22:00-01:00
+export const isOvernightBlock = (block: BlockTimes): boolean => {
+  return timeToMinutes(block.endTime) < timeToMinutes(block.startTime);
+};
+
+export const getBlockDurationMinutes = (block: BlockTimes): number => {
+  const duration = timeToMinutes(block.endTime) - timeToMinutes(block.startTime);
+  return isOvernightBlock(block) ? duration + MINUTES_PER_DAY : duration;
+};
+
+// Whole days from 1970-01-01 to a YYYY-MM-DD date, ignoring timezones and DST
+const getDayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / (MINUTES_PER_DAY * 60 * 1000));
+};
+
+// Start and end of a block as minutes on one continuous scale, so blocks on
+// different days, and blocks running past midnight, can be compared directly
+export const getBlockSpan = (block: TimeBlockData): { start: number; end: number } => {
+  const start = getDayNumber(block.date) * MINUTES_PER_DAY + timeToMinutes(block.startTime);
+  return { start, end: start + getBlockDurationMinutes(block) };
+};
+
+// Minutes from midnight at the start of the given date, so times on the next day exceed 24:00
+export const getMinutesFromDate = (date: string, minutesOnScale: number): number => {
+  return minutesOnScale - getDayNumber(date) * MINUTES_PER_DAY;
+};
@@ -0,0 +1,162 @@
+import { BlockTask, TimeBlockData } from '@/components/TimeBlock';
+import { InboxTask, getBlocksOnDate, getBlocksInDateRange, loadTimeBlocks, saveTimeBlocks, loadInboxTasks, saveInboxTasks } from '@/utils/storage';
+import { applyBlockUpdate, toStandaloneBlock } from '@/utils/recurrence';
+import { carryTask, getTaskOrigin, getTaskProgress } from '@/utils/tasks';
+import { createInboxTask, isBlockFinished } from '@/utils/inbox';
+import { resolveBatchConflicts } from '@/utils/conflicts';
+import { timeToMinutes } from '@/utils/blockTime';
+import { formatDateString, addDays } from '@/utils/date';
+
+// How far back the new-day check looks for unfinished tasks
+const MAX_ROLLOVER_DAYS = 7;
+
+// Where an unfinished task goes: into a later block today, a new block tomorrow,
+// the inbox, or nowhere (it stays unticked in its block)
+export type CarryOverTarget =
+  | { type: 'later'; blockId: string }
+  | { type: 'tomorrow' }
+  | { type: 'inbox' }
+  | { type: 'keep' };
+
+export interface CarryOverItem {
+  block: TimeBlockData;
+  task: BlockTask;
+}
+
+export interface CarryOverResult {
+  blocks: TimeBlockData[];
+  newBlocks: TimeBlockData[]; // Blocks created for tomorrow, not yet in blocks
+  inboxTasks: InboxTask[];
+}
+
+// Occurrences of a repeating block share task ids, so items are keyed by block and task
+export const getCarryOverKey = (item: CarryOverItem): string => `${item.block.id}|${item.task.id}`;
+
+export const getUnfinishedItems = (blocks: TimeBlockData[]): CarryOverItem[] => {
+  return blocks.flatMap(block => block.tasks.filter(task => !task.isDone).map(task => ({ block, task })));
+};
+
+// Unfinished tasks from blocks on the days between the last rollover and today
+export const getRolloverItems = (blocks: TimeBlockData[], lastRolloverDate: string, today: string): CarryOverItem[] => {
+  const earliest = addDays(today, -MAX_ROLLOVER_DAYS);
+  const startDate = lastRolloverDate > earliest ? lastRolloverDate : earliest;
+  const yesterday = addDays(today, -1);
+  if (startDate > yesterday) return [];
+
+  const endedBlocks = getBlocksInDateRange(blocks, startDate, yesterday).filter(block => isBlockFinished(block));
+  return getUnfinishedItems(endedBlocks);
+};
+
+// Blocks on the date that haven't started yet and can take carried tasks
+export const getLaterBlocks = (
+  blocks: TimeBlockData[],
+  date: string,
+  excludedIds: string[] = [],
+  now: Date = new Date()
+): TimeBlockData[] => {
+  const isToday = date === formatDateString(now);
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return getBlocksOnDate(blocks, date).filter(block =>
+    block.date === date
+    && !excludedIds.includes(block.id)
+    && !block.isActive
+    && !isBlockFinished(block, now)
+    && (!isToday || timeToMinutes(block.startTime) > nowMinutes)
+  );
+};
+
+// Helper function to take moved tasks out of their block. The block keeps the progress it had,
+// since dropping its unfinished tasks doesn't mean more of it got done.
+const removeTasks = (blocks: TimeBlockData[], block: TimeBlockData, taskIds: string[]): TimeBlockData[] => {
+  const remaining = block.tasks.filter(task => !taskIds.includes(task.id));
+  return applyBlockUpdate(blocks, block.id, { tasks: remaining }, 'this');
+};
+
+// Move each unfinished task to its target. Carried tasks remember the block they came from.
+export const applyCarryOver = (
+  blocks: TimeBlockData[],
+  items: CarryOverItem[],
+  targets: Record<string, CarryOverTarget>,
+  laterBlocks: TimeBlockData[],
+  tomorrow: string
+): CarryOverResult => {
+  const movedBySource = new Map<string, { block: TimeBlockData; taskIds: string[] }>();
+  const addedByTarget = new Map<string, BlockTask[]>();
+  const tomorrowBySource = new Map<string, { block: TimeBlockData; tasks: BlockTask[] }>();
+  const inboxTasks: InboxTask[] = [];
+
+  items.forEach(item => {
+    const target = targets[getCarryOverKey(item)] ?? { type: 'keep' };
+    if (target.type === 'keep') return;
+
+    const { block, task } = item;
+    const moved = movedBySource.get(block.id) ?? { block, taskIds: [] };
+    moved.taskIds.push(task.id);
+    movedBySource.set(block.id, moved);
+
+    if (target.type === 'later') {
+      addedByTarget.set(target.blockId, [...(addedByTarget.get(target.blockId) ?? []), carryTask(task, block)]);
+    } else if (target.type === 'tomorrow') {
+      const group = tomorrowBySource.get(block.id) ?? { block, tasks: [] };
+      group.tasks.push(carryTask(task, block));
+      tomorrowBySource.set(block.id, group);
+    } else {
+      inboxTasks.push(createInboxTask(task.text, { category: block.category, carriedFrom: getTaskOrigin(task, block) }));
+    }
+  });
+
+  let updatedBlocks = blocks;
+  movedBySource.forEach(({ block, taskIds }) => {
+    updatedBlocks = removeTasks(updatedBlocks, block, taskIds);
+  });
+  addedByTarget.forEach((tasks, blockId) => {
+    const target = laterBlocks.find(block => block.id === blockId);
+    if (!target) return;
+    const updatedTasks = [...target.tasks, ...tasks];
+    updatedBlocks = applyBlockUpdate(updatedBlocks, blockId, { tasks: updatedTasks, progress: getTaskProgress(updatedTasks) }, 'this');
+  });
+
+  // Tomorrow's block keeps the original's time and category
+  const newBlocks = Array.from(tomorrowBySource.values()).map(({ block, tasks }, index) => ({
+    ...toStandaloneBlock(block),
+    id: `${Date.now()}-${index}`,
+    date: tomorrow,
+    tasks,
+    isActive: false,
+    isCompleted: false,
+    progress: 0,
+  }));
+
+  return { blocks: updatedBlocks, newBlocks, inboxTasks };
+};
+
+// Apply a carry-over to stored data. New blocks that clash with existing ones go through the
+// usual conflict prompt. Resolves false when the user cancels that prompt.
+export const saveCarryOver = async (
+  items: CarryOverItem[],
+  targets: Record<string, CarryOverTarget>,
+  laterBlocks: TimeBlockData[],
+  tomorrow: string
+): Promise<boolean> => {
+  const [blocks, existingInboxTasks] = await Promise.all([loadTimeBlocks(), loadInboxTasks()]);
+  const result = applyCarryOver(blocks, items, targets, laterBlocks, tomorrow);
+
+  const blocksToAdd = result.newBlocks.length > 0
+    ? await resolveBatchConflicts(result.blocks, result.newBlocks)
+    : [];
+  if (!blocksToAdd) return false;
+
+  await saveTimeBlocks([...result.blocks, ...blocksToAdd]);
+  if (result.inboxTasks.length > 0) {
+    await saveInboxTasks([...existingInboxTasks, ...result.inboxTasks]);
+  }
+  return true;
+};
+
+// Send every unticked task of a block to the inbox
+export const moveUnfinishedTasksToInbox = (blocks: TimeBlockData[], block: TimeBlockData): CarryOverResult => {
+  const items = getUnfinishedItems([block]);
+  const targets = Object.fromEntries(items.map(item => [getCarryOverKey(item), { type: 'inbox' } as CarryOverTarget]));
+  return applyCarryOver(blocks, items, targets, [], block.date);
+};
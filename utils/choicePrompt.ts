@@ -0,0 +1,55 @@
+// Alert.alert does nothing on web and shows at most 3 buttons on Android, so choices that
+// must work everywhere go through an in-app dialog instead. A ChoicePromptHost renders it;
+// the root layout mounts one, and modals that ask while they stay open mount their own so
+// the dialog appears above them.
+
+export interface ChoiceOption<T> {
+  label: string;
+  value: T;
+  style?: 'default' | 'destructive';
+}
+
+export interface ChoicePromptRequest {
+  title: string;
+  message: string;
+  options: { label: string; style?: 'default' | 'destructive' }[];
+  cancelLabel: string;
+  resolve: (index: number | null) => void; // null when cancelled or dismissed
+}
+
+type ChoicePromptListener = (request: ChoicePromptRequest) => void;
+
+const hosts: ChoicePromptListener[] = [];
+
+// The most recently mounted host shows the dialog. Returns the function that unregisters it.
+export const registerChoicePromptHost = (listener: ChoicePromptListener): (() => void) => {
+  hosts.push(listener);
+  return () => {
+    const index = hosts.lastIndexOf(listener);
+    if (index !== -1) hosts.splice(index, 1);
+  };
+};
+
+// Ask the user to pick one of the options. Resolves with its value, or null on cancel.
+export const showChoicePrompt = <T>(
+  title: string,
+  message: string,
+  options: ChoiceOption<T>[],
+  cancelLabel: string = 'Cancel'
+): Promise<T | null> => {
+  const host = hosts[hosts.length - 1];
+  if (!host) {
+    console.error('No choice prompt host is mounted:', title);
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    host({
+      title,
+      message,
+      options: options.map(({ label, style }) => ({ label, style })),
+      cancelLabel,
+      resolve: index => resolve(index === null ? null : options[index].value),
+    });
+  });
+};
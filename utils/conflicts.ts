@@ -0,0 +1,133 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getBlocksOnDate } from '@/utils/storage';
+import {
+  MINUTES_PER_DAY,
+  timeToMinutes,
+  minutesToTime,
+  getBlockDurationMinutes,
+  getBlockSpan,
+  getMinutesFromDate,
+  isOvernightBlock,
+} from '@/utils/blockTime';
+import { addDays } from '@/utils/date';
+import { showChoicePrompt, ChoiceOption } from '@/utils/choicePrompt';
+
+const MIN_SHORTENED_MINUTES = 5;
+
+const formatTime12Hour = (time24: string) => {
+  const [hour, minute] = time24.split(':').map(Number);
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+};
+
+// Do two blocks share any time, including time after midnight? Touching edges don't count.
+export const blocksOverlap = (a: TimeBlockData, b: TimeBlockData): boolean => {
+  const spanA = getBlockSpan(a);
+  const spanB = getBlockSpan(b);
+  return spanA.start < spanB.end && spanB.start < spanA.end;
+};
+
+// Existing blocks, including repeating occurrences, that overlap the given block
+export const findOverlappingBlocks = (blocks: TimeBlockData[], block: TimeBlockData): TimeBlockData[] => {
+  const sameDay = getBlocksOnDate(blocks, block.date);
+  const nextDay = isOvernightBlock(block)
+    ? getBlocksOnDate(blocks, addDays(block.date, 1)).filter(existing => !sameDay.some(b => b.id === existing.id))
+    : [];
+
+  return [...sameDay, ...nextDay]
+    .filter(existing => existing.id !== block.id && existing.seriesId !== block.id)
+    .filter(existing => blocksOverlap(existing, block));
+};
+
+// The same block moved to the earliest time from its start onward where it fits without
+// overlapping anything, or null when the rest of the day is too full
+export const findNextFreeSlot = (blocks: TimeBlockData[], block: TimeBlockData): TimeBlockData | null => {
+  const duration = getBlockDurationMinutes(block);
+  let start = timeToMinutes(block.startTime);
+
+  // The block must still start on its own date, but may now run past midnight
+  while (start < MINUTES_PER_DAY) {
+    const candidate = { ...block, startTime: minutesToTime(start), endTime: minutesToTime(start + duration) };
+    const overlaps = findOverlappingBlocks(blocks, candidate);
+    if (overlaps.length === 0) return candidate;
+
+    start = Math.max(...overlaps.map(overlap => getMinutesFromDate(block.date, getBlockSpan(overlap).end)));
+  }
+
+  return null;
+};
+
+// The same block ending where the first clashing block begins, or null when a clash
+// starts before the block does or too little time would be left
+export const shortenToFit = (blocks: TimeBlockData[], block: TimeBlockData): TimeBlockData | null => {
+  const overlaps = findOverlappingBlocks(blocks, block);
+  if (overlaps.length === 0) return block;
+
+  const start = timeToMinutes(block.startTime);
+  const end = Math.min(...overlaps.map(overlap => getMinutesFromDate(block.date, getBlockSpan(overlap).start)));
+  if (end - start < MIN_SHORTENED_MINUTES) return null;
+
+  return { ...block, endTime: minutesToTime(end) };
+};
+
+// Blocks that are about to be added together, each checked against the existing
+// blocks and the ones added before it
+export const findBatchOverlaps = (blocks: TimeBlockData[], newBlocks: TimeBlockData[]): TimeBlockData[][] => {
+  return newBlocks.map((block, index) => findOverlappingBlocks([...blocks, ...newBlocks.slice(0, index)], block));
+};
+
+const describeOverlaps = (overlaps: TimeBlockData[]) => {
+  return overlaps
+    .map(overlap => `• ${overlap.title} (${formatTime12Hour(overlap.startTime)} - ${formatTime12Hour(overlap.endTime)})`)
+    .join('\n');
+};
+
+// Ask how to handle a block that clashes with existing ones. Resolves with the block to
+// save, which may have been moved or shortened, or null when the user cancels.
+export const resolveBlockConflicts = (blocks: TimeBlockData[], block: TimeBlockData): Promise<TimeBlockData | null> => {
+  const overlaps = findOverlappingBlocks(blocks, block);
+  if (overlaps.length === 0) return Promise.resolve(block);
+
+  const moved = findNextFreeSlot(blocks, block);
+  const shortened = shortenToFit(blocks, block);
+
+  const options: ChoiceOption<TimeBlockData>[] = [
+    ...(moved ? [{ label: `Move to ${formatTime12Hour(moved.startTime)}`, value: moved }] : []),
+    ...(shortened ? [{ label: `End at ${formatTime12Hour(shortened.endTime)}`, value: shortened }] : []),
+    { label: 'Save Anyway', value: block },
+  ];
+
+  return showChoicePrompt('Time Conflict', `"${block.title}" overlaps:\n${describeOverlaps(overlaps)}`, options);
+};
+
+// Ask how to handle clashes when adding several blocks at once. Resolves with the blocks
+// to save, or null when the user cancels.
+export const resolveBatchConflicts = async (blocks: TimeBlockData[], newBlocks: TimeBlockData[]): Promise<TimeBlockData[] | null> => {
+  const overlaps = findBatchOverlaps(blocks, newBlocks);
+  const conflicting = newBlocks.filter((_, index) => overlaps[index].length > 0);
+  if (conflicting.length === 0) return newBlocks;
+
+  const skipOverlapping = () => newBlocks.filter((_, index) => overlaps[index].length === 0);
+
+  // Place blocks one at a time so moved blocks don't land on each other either
+  const moveToFreeSlots = () => newBlocks.reduce<TimeBlockData[]>((placed, block) => {
+    const moved = findNextFreeSlot([...blocks, ...placed], block);
+    return moved ? [...placed, moved] : placed;
+  }, []);
+
+  const choice = await showChoicePrompt(
+    'Time Conflicts',
+    `${conflicting.length} of ${newBlocks.length} blocks overlap existing ones:\n${conflicting.map(block => `• ${block.title}`).join('\n')}`,
+    [
+      { label: 'Skip Overlapping', value: 'skip' as const },
+      { label: 'Move to Free Slots', value: 'move' as const },
+      { label: 'Add Anyway', value: 'add' as const },
+    ]
+  );
+
+  if (choice === 'skip') return skipOverlapping();
+  if (choice === 'move') return moveToFreeSlots();
+  if (choice === 'add') return newBlocks;
+  return null;
+};
@@ -0,0 +1,69 @@
+// Dates are stored as YYYY-MM-DD strings of the user's local calendar day. Never build them
+// with toISOString(), which gives the UTC date and flips "today" at the wrong hour.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_STRING_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const formatDateString = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Local midnight at the start of the date
+export const parseDateString = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isDateString = (value: unknown): value is string => {
+  return typeof value === 'string' && DATE_STRING_PATTERN.test(value);
+};
+
+export const getTodayDateString = (): string => formatDateString(new Date());
+
+export const addDays = (dateString: string, days: number): string => {
+  const date = parseDateString(dateString);
+  date.setDate(date.getDate() + days);
+  return formatDateString(date);
+};
+
+// Whole calendar days from one date to another, unaffected by daylight saving changes
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / DAY_MS);
+};
+
+// Every date from start to end, both included
+export const getDateRange = (startDate: string, endDate: string): string[] => {
+  const count = daysBetween(startDate, endDate) + 1;
+  return Array.from({ length: Math.max(0, count) }, (_, i) => addDays(startDate, i));
+};
+
+// 0 for Sunday through 6 for Saturday
+export const getWeekday = (dateString: string): number => parseDateString(dateString).getDay();
+
+// The first date after the given one that falls on the weekday, e.g. the coming Monday
+export const getNextWeekday = (dateString: string, weekday: number): string => {
+  return addDays(dateString, ((weekday - getWeekday(dateString) + 6) % 7) + 1);
+};
+
+// Today, Tomorrow or Yesterday when close by, otherwise the date in the given format
+export const formatRelativeDate = (
+  dateString: string,
+  options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' }
+): string => {
+  const offset = daysBetween(getTodayDateString(), dateString);
+  if (offset === 0) return 'Today';
+  if (offset === 1) return 'Tomorrow';
+  if (offset === -1) return 'Yesterday';
+  return parseDateString(dateString).toLocaleDateString('en-US', options);
+};
+
+// Convert a date written in another format, e.g. by Date.toDateString(), to YYYY-MM-DD.
+// Returns null when the value can't be read as a date.
+export const normalizeDateString = (value: string): string | null => {
+  if (isDateString(value)) return value;
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? null : formatDateString(parsed);
+};
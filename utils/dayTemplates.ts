@@ -0,0 +1,46 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { DayTemplate, DayTemplateBlock, filterBlocksByDate } from '@/utils/storage';
+import { addMinutesToTime, getBlockDurationMinutes, timeToMinutes } from '@/utils/blockTime';
+import { createTasks } from '@/utils/tasks';
+
+// Capture the blocks that start on a date. Overnight blocks from the night before belong
+// to the previous day's layout.
+export const createDayTemplate = (name: string, blocks: TimeBlockData[], date: string): DayTemplate => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  blocks: filterBlocksByDate(blocks, date).map((block): DayTemplateBlock => ({
+    title: block.title,
+    startTime: block.startTime,
+    durationMinutes: getBlockDurationMinutes(block),
+    category: block.category,
+    color: block.color,
+    tasks: block.tasks.map(task => task.text),
+  })),
+  createdAt: new Date().toISOString(),
+});
+
+// New blocks laying out the template on a date, ready for the conflict check
+export const getDayTemplateBlocks = (template: DayTemplate, date: string): TimeBlockData[] => {
+  return template.blocks.map((templateBlock, index) => ({
+    id: `${Date.now()}-${index}`,
+    title: templateBlock.title,
+    date,
+    startTime: templateBlock.startTime,
+    endTime: addMinutesToTime(templateBlock.startTime, templateBlock.durationMinutes),
+    category: templateBlock.category,
+    color: templateBlock.color,
+    tasks: createTasks(templateBlock.tasks),
+    isActive: false,
+    isCompleted: false,
+    progress: 0,
+  }));
+};
+
+// Start and end of the day's layout in minutes from midnight; an end past 1440 runs into the next day
+export const getDayTemplateSpan = (template: DayTemplate): { start: number; end: number } | null => {
+  if (template.blocks.length === 0) return null;
+
+  const starts = template.blocks.map(block => timeToMinutes(block.startTime));
+  const ends = template.blocks.map((block, index) => starts[index] + block.durationMinutes);
+  return { start: Math.min(...starts), end: Math.max(...ends) };
+};
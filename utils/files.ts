@@ -0,0 +1,49 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+// Save a text file through the share sheet, or as a download on web
+export const shareTextFile = async (fileName: string, contents: string, mimeType: string): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return true;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(fileUri, contents);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    console.warn('Sharing is not available, file saved to:', fileUri);
+    return false;
+  }
+
+  await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: fileName });
+  return true;
+};
+
+// Let the user pick a file and return its text, or null when cancelled
+export const pickTextFile = async (mimeTypes: string[]): Promise<{ name: string; contents: string } | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeTypes,
+    copyToCacheDirectory: true,
+    multiple: false,
+  });
+
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  const contents = Platform.OS === 'web'
+    ? await (asset.file ? asset.file.text() : fetch(asset.uri).then(response => response.text()))
+    : await FileSystem.readAsStringAsync(asset.uri);
+
+  return { name: asset.name, contents };
+};
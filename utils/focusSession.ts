@@ -0,0 +1,224 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FOCUS_SESSION_KEY, PomodoroIntervalType, PomodoroSettings } from '@/utils/storage';
+
+export interface PomodoroInterval {
+  type: PomodoroIntervalType;
+  minutes: number;
+}
+
+export interface EndedInterval {
+  interval: PomodoroIntervalType;
+  at: number;
+  nextStarted: boolean;
+}
+
+// A running focus session is stored as wall-clock timestamps (ms since epoch)
+// so the remaining time stays correct while the app is backgrounded or closed.
+export interface FocusSession {
+  id: string; // Matches the session's record in the sessions store
+  blockId: string;
+  startedAt: number;
+  durationMs: number;
+  endsAt: number; // Target end, pushed back by every pause
+  pausedAt: number | null;
+  pausedTotalMs: number;
+  // Pomodoro plan for the block. The countdown fields above then track the current interval.
+  intervals?: PomodoroInterval[];
+  intervalIndex?: number;
+  autoStartNext?: boolean;
+}
+
+// Split a block into work intervals and breaks, with a long break after every N work intervals.
+// The plan never ends on a break, so the block may finish a few minutes early.
+export const createPomodoroPlan = (totalMinutes: number, settings: PomodoroSettings): PomodoroInterval[] => {
+  const plan: PomodoroInterval[] = [];
+  let remaining = totalMinutes;
+  let cycle = 0;
+
+  while (remaining > 0) {
+    const workMinutes = Math.min(settings.workMinutes, remaining);
+    plan.push({ type: 'work', minutes: workMinutes });
+    remaining -= workMinutes;
+    cycle++;
+
+    const isLongBreak = cycle % settings.cyclesBeforeLongBreak === 0;
+    const breakMinutes = isLongBreak ? settings.longBreakMinutes : settings.shortBreakMinutes;
+    if (remaining <= breakMinutes) break;
+
+    plan.push({ type: isLongBreak ? 'longBreak' : 'shortBreak', minutes: breakMinutes });
+    remaining -= breakMinutes;
+  }
+
+  return plan.length > 0 ? plan : [{ type: 'work', minutes: Math.max(0, totalMinutes) }];
+};
+
+// Helper function to point the countdown at one interval of the plan
+const startInterval = (session: FocusSession, index: number, startAt: number, isRunning: boolean): FocusSession => {
+  const durationMs = (session.intervals?.[index]?.minutes ?? 0) * 60 * 1000;
+  return {
+    ...session,
+    intervalIndex: index,
+    startedAt: startAt,
+    durationMs,
+    endsAt: startAt + durationMs,
+    pausedAt: isRunning ? null : startAt,
+  };
+};
+
+// Pomodoro settings only apply when enabled, otherwise the block is one countdown
+export const createFocusSession = (
+  blockId: string,
+  durationMinutes: number,
+  now: number = Date.now(),
+  pomodoro?: PomodoroSettings
+): FocusSession => {
+  const durationMs = Math.max(0, Math.round(durationMinutes * 60 * 1000));
+  const session: FocusSession = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    blockId,
+    startedAt: now,
+    durationMs,
+    endsAt: now + durationMs,
+    pausedAt: null,
+    pausedTotalMs: 0,
+  };
+
+  if (!pomodoro?.enabled) return session;
+
+  return startInterval(
+    { ...session, intervals: createPomodoroPlan(durationMinutes, pomodoro), autoStartNext: pomodoro.autoStartNext },
+    0,
+    now,
+    true
+  );
+};
+
+export const getCurrentInterval = (session: FocusSession): PomodoroInterval | null => {
+  return session.intervals?.[session.intervalIndex ?? 0] ?? null;
+};
+
+export const isBreakInterval = (session: FocusSession): boolean => {
+  const interval = getCurrentInterval(session);
+  return interval !== null && interval.type !== 'work';
+};
+
+export const hasNextInterval = (session: FocusSession): boolean => {
+  return !!session.intervals && (session.intervalIndex ?? 0) < session.intervals.length - 1;
+};
+
+// Work interval the session is on (or just finished, during a break) out of the total
+export const getWorkCycle = (session: FocusSession): { current: number; total: number } => {
+  const intervals = session.intervals ?? [];
+  const index = session.intervalIndex ?? 0;
+  return {
+    current: intervals.slice(0, index + 1).filter(interval => interval.type === 'work').length,
+    total: intervals.filter(interval => interval.type === 'work').length,
+  };
+};
+
+// Move past every interval that has run out. With auto-start each interval begins exactly when
+// the previous one ended, so time spent in the background is accounted for.
+export const advanceIntervals = (
+  session: FocusSession,
+  now: number = Date.now()
+): { session: FocusSession; ended: EndedInterval[] } => {
+  let current = session;
+  const ended: EndedInterval[] = [];
+
+  while (isSessionFinished(current, now) && hasNextInterval(current)) {
+    const finished = getCurrentInterval(current)!;
+    const at = current.endsAt;
+    const nextStarted = !!current.autoStartNext;
+
+    current = startInterval(current, (current.intervalIndex ?? 0) + 1, at, nextStarted);
+    ended.push({ interval: finished.type, at, nextStarted });
+
+    if (!nextStarted) break;
+  }
+
+  return { session: current, ended };
+};
+
+export const skipInterval = (session: FocusSession, now: number = Date.now()): FocusSession => {
+  if (!hasNextInterval(session)) return session;
+  return startInterval(session, (session.intervalIndex ?? 0) + 1, now, !!session.autoStartNext);
+};
+
+export const isSessionPaused = (session: FocusSession): boolean => session.pausedAt !== null;
+
+// Remaining time freezes at the moment the session was paused
+export const getRemainingMs = (session: FocusSession, now: number = Date.now()): number => {
+  const reference = session.pausedAt ?? now;
+  return Math.max(0, session.endsAt - reference);
+};
+
+export const getElapsedMs = (session: FocusSession, now: number = Date.now()): number => {
+  return session.durationMs - getRemainingMs(session, now);
+};
+
+export const isSessionFinished = (session: FocusSession, now: number = Date.now()): boolean => {
+  return getRemainingMs(session, now) === 0;
+};
+
+export const pauseSession = (session: FocusSession, now: number = Date.now()): FocusSession => {
+  if (isSessionPaused(session) || isSessionFinished(session, now)) return session;
+  return { ...session, pausedAt: now };
+};
+
+export const resumeSession = (session: FocusSession, now: number = Date.now()): FocusSession => {
+  if (session.pausedAt === null) return session;
+  const pausedFor = now - session.pausedAt;
+  return {
+    ...session,
+    endsAt: session.endsAt + pausedFor,
+    pausedAt: null,
+    pausedTotalMs: session.pausedTotalMs + pausedFor,
+  };
+};
+
+// Start the same block over with its full duration, keeping the session's history
+export const restartSession = (session: FocusSession, now: number = Date.now()): FocusSession => {
+  if (session.intervals) {
+    return { ...startInterval(session, 0, now, true), pausedTotalMs: 0 };
+  }
+  return { ...createFocusSession(session.blockId, session.durationMs / 60000, now), id: session.id };
+};
+
+export const extendSession = (session: FocusSession, minutes: number): FocusSession => {
+  const addedMs = minutes * 60 * 1000;
+  return {
+    ...session,
+    durationMs: session.durationMs + addedMs,
+    endsAt: session.endsAt + addedMs,
+  };
+};
+
+export const loadFocusSession = async (): Promise<FocusSession | null> => {
+  try {
+    const saved = await AsyncStorage.getItem(FOCUS_SESSION_KEY);
+    if (!saved) return null;
+
+    const session = JSON.parse(saved);
+    if (typeof session?.id !== 'string' || typeof session.endsAt !== 'number') return null;
+    return session;
+  } catch (error) {
+    console.error('Error loading focus session:', error);
+    return null;
+  }
+};
+
+export const saveFocusSession = async (session: FocusSession): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(FOCUS_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Error saving focus session:', error);
+  }
+};
+
+export const clearFocusSession = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(FOCUS_SESSION_KEY);
+  } catch (error) {
+    console.error('Error clearing focus session:', error);
+  }
+};
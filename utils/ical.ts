@@ -0,0 +1,619 @@
+import { TimeBlockData, RepeatRule } from '@/components/TimeBlock';
+import { getBlocksInDateRange, BlockCategory } from '@/utils/storage';
+import { getSeriesStartDate } from '@/utils/recurrence';
+import { findOverlappingBlocks } from '@/utils/conflicts';
+import { createTask } from '@/utils/tasks';
+import { MINUTES_PER_DAY, timeToMinutes, addMinutesToTime, isOvernightBlock } from '@/utils/blockTime';
+import { shareTextFile } from '@/utils/files';
+import { getTodayDateString, formatDateString, addDays, daysBetween, getWeekday } from '@/utils/date';
+
+const PRODUCT_ID = '-//FocusNest//FocusNest App//EN';
+const UID_DOMAIN = 'focusnest.app';
+const MAX_LINE_OCTETS = 75;
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Helper function to escape TEXT values (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Helper function to fold content lines longer than 75 octets (RFC 5545 section 3.1)
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const codePoint = char.codePointAt(0)!;
+    const octets = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// Helper function to format a local date and time as a floating DATE-TIME, e.g. 20250301T090000
+const formatLocalDateTime = (date: string, time: string): string => {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+};
+
+const formatUtcDateTime = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const formatRepeatRule = (rule: RepeatRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const parts: string[] = [];
+
+  switch (rule.frequency) {
+    case 'daily':
+      parts.push('FREQ=DAILY', `INTERVAL=${interval}`);
+      break;
+    case 'weekdays':
+      parts.push('FREQ=WEEKLY', 'BYDAY=MO,TU,WE,TH,FR');
+      break;
+    case 'weekly':
+      // Weeks are counted from Sunday, matching utils/recurrence
+      parts.push('FREQ=WEEKLY', `INTERVAL=${interval}`, 'WKST=SU');
+      if (rule.weekdays && rule.weekdays.length > 0) {
+        parts.push(`BYDAY=${rule.weekdays.slice().sort().map(day => ICAL_WEEKDAYS[day]).join(',')}`);
+      }
+      break;
+  }
+
+  if (rule.until) {
+    parts.push(`UNTIL=${formatLocalDateTime(rule.until, '23:59')}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+};
+
+const formatDescription = (block: TimeBlockData): string => {
+  const lines = [`Category: ${block.category}`];
+
+  if (block.tasks.length > 0) {
+    lines.push('', 'Tasks:');
+    block.tasks.forEach(task => lines.push(`${task.isDone ? '[x]' : '[ ]'} ${task.text}`));
+  }
+
+  return lines.join('\n');
+};
+
+// Build the VEVENT lines for one block. Detached occurrences become overrides of their series,
+// so the other exported blocks are needed to match the two up.
+const formatEvent = (block: TimeBlockData, blocks: TimeBlockData[], timestamp: string): string[] => {
+  const isOverride = Boolean(block.seriesId && block.occurrenceDate);
+  const startDate = block.repeat ? getSeriesStartDate(block) : block.date;
+  const endDate = isOvernightBlock(block) ? addDays(startDate, 1) : startDate;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${isOverride ? block.seriesId : block.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${timestamp}`,
+    `DTSTART:${formatLocalDateTime(startDate, block.startTime)}`,
+    `DTEND:${formatLocalDateTime(endDate, block.endTime)}`,
+    `SUMMARY:${escapeText(block.title)}`,
+    `DESCRIPTION:${escapeText(formatDescription(block))}`,
+    `CATEGORIES:${escapeText(block.category)}`,
+    `STATUS:${block.isCompleted ? 'CONFIRMED' : 'TENTATIVE'}`,
+    `X-FOCUSNEST-COLOR:${block.color}`,
+    `X-FOCUSNEST-COMPLETED:${block.isCompleted ? 'TRUE' : 'FALSE'}`,
+  ];
+
+  // RECURRENCE-ID names the occurrence being replaced, which starts at the series' time
+  if (isOverride) {
+    const series = blocks.find(b => b.id === block.seriesId);
+    lines.push(`RECURRENCE-ID:${formatLocalDateTime(block.occurrenceDate!, series?.startTime ?? block.startTime)}`);
+  }
+
+  // Dates with an override are replaced by it, not cancelled, so they get no EXDATE
+  if (block.repeat) {
+    const overriddenDates = new Set(blocks.filter(b => b.seriesId === block.id).map(b => b.occurrenceDate));
+    lines.push(`RRULE:${formatRepeatRule(block.repeat)}`);
+    (block.excludedDates ?? [])
+      .filter(date => !overriddenDates.has(date))
+      .forEach(date => {
+        lines.push(`EXDATE:${formatLocalDateTime(date, block.startTime)}`);
+      });
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Blocks to export for a range: stored blocks in it, plus whole series with an occurrence in it
+export const getBlocksForExport = (blocks: TimeBlockData[], startDate: string, endDate: string): TimeBlockData[] => {
+  const storedIds = new Set(blocks.map(block => block.id));
+  const inRange = getBlocksInDateRange(blocks, startDate, endDate);
+  const seriesIds = new Set(inRange.map(block => block.seriesId).filter(Boolean));
+
+  const storedInRange = inRange.filter(block => storedIds.has(block.id));
+  const series = blocks.filter(block => block.repeat && seriesIds.has(block.id));
+
+  return [...series, ...storedInRange];
+};
+
+// Build an RFC 5545 calendar. Times are floating local times, with the device timezone as a hint.
+export const createCalendar = (blocks: TimeBlockData[]): string => {
+  const timestamp = formatUtcDateTime(new Date());
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:FocusNest',
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
+    ...blocks.flatMap(block => formatEvent(block, blocks, timestamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export type CalendarExportPreset = 'week' | 'next30' | 'all';
+
+// Date range for an export preset, undefined meaning every block
+export const getCalendarExportRange = (
+  preset: CalendarExportPreset,
+  today: string = getTodayDateString()
+): { startDate: string; endDate: string } | undefined => {
+  switch (preset) {
+    case 'week': {
+      const weekday = getWeekday(today);
+      return { startDate: addDays(today, -weekday), endDate: addDays(today, 6 - weekday) };
+    }
+    case 'next30':
+      return { startDate: today, endDate: addDays(today, 29) };
+    default:
+      return undefined;
+  }
+};
+
+// Export blocks in a date range as an .ics file, or every block when no range is given.
+// Returns how many events were written.
+export const exportCalendar = async (
+  blocks: TimeBlockData[],
+  range?: { startDate: string; endDate: string }
+): Promise<number> => {
+  const eventBlocks = range ? getBlocksForExport(blocks, range.startDate, range.endDate) : blocks;
+  const fileName = range
+    ? `focusnest-${range.startDate}-to-${range.endDate}.ics`
+    : `focusnest-all-${getTodayDateString()}.ics`;
+
+  await shareTextFile(fileName, createCalendar(eventBlocks), 'text/calendar');
+  return eventBlocks.length;
+};
+
+// ---- Import ----
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface CalendarDateTime {
+  date: string; // Local YYYY-MM-DD
+  time: string; // Local HH:MM
+  isAllDay: boolean;
+  hasUnknownTimeZone: boolean;
+}
+
+// A VEVENT with its properties converted to local dates and times
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  categories: string[];
+  start: CalendarDateTime;
+  end?: CalendarDateTime;
+  durationMinutes?: number;
+  repeat?: RepeatRule;
+  hasUnsupportedRepeat: boolean;
+  excludedDates: string[];
+  recurrenceDate?: string; // Set on overrides of a single occurrence
+  isCancelled: boolean;
+  color?: string;
+  isCompleted: boolean;
+}
+
+export interface CalendarImportCandidate {
+  block: TimeBlockData;
+  overlaps: TimeBlockData[];
+  isAllDay: boolean;
+  isPast: boolean;
+  warnings: string[];
+}
+
+export interface CalendarImportOptions {
+  existingBlocks: TimeBlockData[];
+  categories: BlockCategory[];
+  workingHours: { start: string; end: string };
+  defaultDuration: number; // Minutes, for events without an end
+  today?: string;
+}
+
+// Words that suggest a category when the event has no matching CATEGORIES value
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Admin: ['meeting', 'call', 'sync', 'standup', 'stand-up', 'email', '1:1', 'one on one', 'interview', 'review', 'planning', 'admin'],
+  Learning: ['course', 'class', 'lecture', 'study', 'training', 'workshop', 'tutorial', 'webinar', 'reading', 'learn'],
+  Health: ['gym', 'workout', 'run', 'yoga', 'doctor', 'dentist', 'meditation', 'walk', 'exercise', 'therapy'],
+  Personal: ['lunch', 'dinner', 'breakfast', 'family', 'birthday', 'errand', 'appointment', 'personal', 'vacation'],
+  Creative: ['design', 'write', 'writing', 'build', 'code', 'coding', 'develop', 'brainstorm', 'draft', 'focus'],
+};
+
+const MAX_ALL_DAY_SPAN_DAYS = 14;
+
+// Helper function to unfold continuation lines and split them into name, parameters and value
+const parseContentLines = (contents: string): ContentLine[] => {
+  const unfolded = contents.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '');
+
+  return unfolded.split('\n').filter(line => line.trim() !== '').map(line => {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let valueStart = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        valueStart = i;
+        break;
+      }
+    }
+
+    const head = valueStart === -1 ? line : line.slice(0, valueStart);
+    const [name, ...paramParts] = head.split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    });
+
+    return { name: name.toUpperCase(), params, value: valueStart === -1 ? '' : line.slice(valueStart + 1) };
+  });
+};
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+const formatLocalTime = (date: Date): string => {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+// Offset of a timezone from UTC at an instant, in milliseconds
+const getTimeZoneOffset = (utcMs: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  const wallAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return wallAsUtc - utcMs;
+};
+
+// Convert a wall-clock time in a timezone to an instant. Throws RangeError for unknown zones.
+const zonedTimeToDate = (wallMs: number, timeZone: string): Date => {
+  const firstOffset = getTimeZoneOffset(wallMs, timeZone);
+  const secondOffset = getTimeZoneOffset(wallMs - firstOffset, timeZone);
+  return new Date(wallMs - secondOffset);
+};
+
+// Parse a DATE or DATE-TIME property into local time, honouring UTC and TZID
+const parseDateTime = (line: ContentLine): CalendarDateTime | null => {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  if (hour === undefined || line.params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}`, time: '00:00', isAllDay: true, hasUnknownTimeZone: false };
+  }
+
+  const wallMs = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? 0));
+  let instant: Date;
+  let hasUnknownTimeZone = false;
+
+  if (utc) {
+    instant = new Date(wallMs);
+  } else if (line.params.TZID) {
+    try {
+      instant = zonedTimeToDate(wallMs, line.params.TZID);
+    } catch {
+      // Not an IANA zone (e.g. a Windows zone name): keep the time as written
+      hasUnknownTimeZone = true;
+      instant = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+    }
+  } else {
+    // Floating time is already local
+    instant = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+  }
+
+  return { date: formatDateString(instant), time: formatLocalTime(instant), isAllDay: false, hasUnknownTimeZone };
+};
+
+// Helper function to parse a DURATION value like PT1H30M into minutes
+const parseDuration = (value: string): number | undefined => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, weeks, days, hours, minutes] = match;
+  const total = (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 1440 + Number(hours ?? 0) * 60 + Number(minutes ?? 0);
+  return sign === '-' ? -total : total;
+};
+
+// Map an RRULE onto the repeat rules blocks support, or null when it can't be represented
+const parseRepeatRule = (value: string, start: CalendarDateTime, dayShift: number): RepeatRule | null => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue !== undefined) parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+
+  const unsupported = ['BYMONTH', 'BYMONTHDAY', 'BYYEARDAY', 'BYWEEKNO', 'BYSETPOS', 'BYHOUR', 'BYMINUTE'];
+  if (unsupported.some(key => key in parts)) return null;
+
+  const interval = parts.INTERVAL ? Math.max(1, parseInt(parts.INTERVAL, 10)) : 1;
+  let rule: RepeatRule;
+
+  if (parts.FREQ === 'DAILY' && !parts.BYDAY) {
+    rule = { frequency: 'daily', interval };
+  } else if (parts.FREQ === 'WEEKLY' || (parts.FREQ === 'DAILY' && parts.BYDAY)) {
+    // BYDAY values like "1MO" only make sense for monthly rules
+    const byDay = parts.BYDAY ? parts.BYDAY.split(',') : [];
+    if (byDay.some(day => !ICAL_WEEKDAYS.includes(day))) return null;
+
+    // Weekdays are written in the event's timezone, which can be a different day locally
+    const weekdays = byDay.map(day => (ICAL_WEEKDAYS.indexOf(day) + dayShift + 7) % 7).sort();
+    const isWeekdays = weekdays.join(',') === '1,2,3,4,5';
+    const effectiveInterval = parts.FREQ === 'DAILY' ? 1 : interval;
+
+    if (parts.FREQ === 'DAILY' && effectiveInterval !== interval) return null;
+
+    rule = isWeekdays && effectiveInterval === 1
+      ? { frequency: 'weekdays', interval: 1 }
+      : { frequency: 'weekly', interval: effectiveInterval, weekdays: weekdays.length > 0 ? weekdays : undefined };
+  } else {
+    return null;
+  }
+
+  if (parts.UNTIL) {
+    const until = parseDateTime({ name: 'UNTIL', params: {}, value: parts.UNTIL });
+    if (until) rule.until = until.date < start.date ? start.date : until.date;
+  } else if (parts.COUNT) {
+    rule.count = Math.max(1, parseInt(parts.COUNT, 10));
+  }
+
+  return rule;
+};
+
+const parseEvent = (lines: ContentLine[]): CalendarEvent | null => {
+  const find = (name: string) => lines.find(line => line.name === name);
+  const dtStart = find('DTSTART');
+  const start = dtStart ? parseDateTime(dtStart) : null;
+  if (!start) return null;
+
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+  const rrule = find('RRULE');
+  const recurrenceId = find('RECURRENCE-ID');
+
+  // How far the local start date moved from the date written in the file
+  const writtenDate = dtStart!.value.slice(0, 8).replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+  const dayShift = daysBetween(writtenDate, start.date);
+
+  const repeat = rrule ? parseRepeatRule(rrule.value, start, dayShift) : null;
+  const excludedDates = lines
+    .filter(line => line.name === 'EXDATE')
+    .flatMap(line => line.value.split(',').map(value => parseDateTime({ ...line, value })))
+    .filter((value): value is CalendarDateTime => value !== null)
+    .map(value => value.date);
+
+  const color = find('X-FOCUSNEST-COLOR')?.value;
+
+  return {
+    uid: find('UID')?.value ?? '',
+    summary: unescapeText(find('SUMMARY')?.value ?? '').trim(),
+    description: unescapeText(find('DESCRIPTION')?.value ?? ''),
+    categories: lines
+      .filter(line => line.name === 'CATEGORIES')
+      // Escaped commas belong to the category name, the others separate categories
+      .flatMap(line => line.value.replace(/\\,/g, '\u0000').split(',').map(category => unescapeText(category.replace(/\u0000/g, '\\,')).trim()))
+      .filter(Boolean),
+    start,
+    end: dtEnd ? parseDateTime(dtEnd) ?? undefined : undefined,
+    durationMinutes: duration ? parseDuration(duration.value) : undefined,
+    repeat: repeat ?? undefined,
+    hasUnsupportedRepeat: Boolean(rrule) && !repeat,
+    excludedDates,
+    recurrenceDate: recurrenceId ? parseDateTime(recurrenceId)?.date : undefined,
+    isCancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+    color: color && /^#[0-9a-fA-F]{6}$/.test(color) ? color : undefined,
+    isCompleted: find('X-FOCUSNEST-COMPLETED')?.value.toUpperCase() === 'TRUE',
+  };
+};
+
+// Parse the VEVENTs of an iCalendar file. Throws an Error with a user-facing message.
+export const parseCalendar = (contents: string): CalendarEvent[] => {
+  const lines = parseContentLines(contents);
+  if (!lines.some(line => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('The file is not an iCalendar (.ics) file.');
+  }
+
+  const events: CalendarEvent[] = [];
+  const componentStack: string[] = [];
+  let eventLines: ContentLine[] = [];
+
+  lines.forEach(line => {
+    if (line.name === 'BEGIN') {
+      componentStack.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') eventLines = [];
+      return;
+    }
+
+    if (line.name === 'END') {
+      const component = componentStack.pop();
+      if (component === 'VEVENT') {
+        const event = parseEvent(eventLines);
+        if (event) events.push(event);
+      }
+      return;
+    }
+
+    // Only properties of the event itself, not of nested alarms
+    if (componentStack[componentStack.length - 1] === 'VEVENT') {
+      eventLines.push(line);
+    }
+  });
+
+  return events;
+};
+
+// Pick a category from the event's CATEGORIES, then from keywords in its title
+const matchCategory = (event: CalendarEvent, categories: BlockCategory[]): BlockCategory | undefined => {
+  const byName = (name: string) => categories.find(category => category.name.toLowerCase() === name.toLowerCase());
+
+  for (const name of event.categories) {
+    const category = byName(name);
+    if (category) return category;
+  }
+
+  const text = `${event.summary} ${event.categories.join(' ')}`.toLowerCase();
+  for (const category of categories) {
+    if (text.includes(category.name.toLowerCase())) return category;
+  }
+  for (const [name, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    const category = byName(name);
+    if (category && keywords.some(keyword => new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text))) {
+      return category;
+    }
+  }
+
+  return undefined;
+};
+
+// Checklist lines written by our own export, e.g. "[x] Write tests"
+const parseTasks = (description: string) => {
+  return description
+    .split('\n')
+    .map(line => line.match(/^\[( |x|X)\] (.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ ...createTask(match[2].trim()), isDone: match[1] !== ' ' }));
+};
+
+// Turn parsed events into blocks ready for review, flagging overlaps with existing blocks
+export const buildImportCandidates = (events: CalendarEvent[], options: CalendarImportOptions): CalendarImportCandidate[] => {
+  const today = options.today ?? getTodayDateString();
+  const fallbackCategory = options.categories[0];
+  const candidates: CalendarImportCandidate[] = [];
+
+  // Occurrences edited in the source calendar are imported on their own, so leave them out of the series
+  const overriddenDates = new Map<string, string[]>();
+  events
+    .filter(event => event.recurrenceDate)
+    .forEach(event => overriddenDates.set(event.uid, [...(overriddenDates.get(event.uid) ?? []), event.recurrenceDate!]));
+
+  events.forEach((event, eventIndex) => {
+    if (event.isCancelled) return;
+
+    const warnings: string[] = [];
+    const category = matchCategory(event, options.categories) ?? fallbackCategory;
+    const tasks = parseTasks(event.description);
+    let dates = [event.start.date];
+    let startTime = event.start.time;
+    let endTime: string;
+
+    if (event.start.isAllDay) {
+      // All-day events fill the working day, one block per day they cover
+      startTime = options.workingHours.start;
+      endTime = options.workingHours.end;
+      const spanDays = event.end ? Math.max(1, daysBetween(event.start.date, event.end.date)) : 1;
+      dates = Array.from({ length: Math.min(spanDays, MAX_ALL_DAY_SPAN_DAYS) }, (_, i) => addDays(event.start.date, i));
+      if (spanDays > MAX_ALL_DAY_SPAN_DAYS) {
+        warnings.push(`Only the first ${MAX_ALL_DAY_SPAN_DAYS} days are imported`);
+      }
+    } else {
+      const durationMinutes = event.end
+        ? daysBetween(event.start.date, event.end.date) * MINUTES_PER_DAY + timeToMinutes(event.end.time) - timeToMinutes(startTime)
+        : event.durationMinutes ?? options.defaultDuration;
+      const blockMinutes = Math.max(durationMinutes, 5);
+
+      if (blockMinutes < MINUTES_PER_DAY) {
+        // Events past midnight become overnight blocks, ending at that time the next day
+        endTime = addMinutesToTime(startTime, blockMinutes);
+      } else {
+        // A block can't last a whole day, so end it at the end of the day it starts
+        endTime = '23:59';
+        warnings.push('Lasts a day or more, shortened to end at 11:59 PM');
+      }
+    }
+
+    if (event.start.hasUnknownTimeZone) {
+      warnings.push('Unknown timezone, times kept as written');
+    }
+    if (event.hasUnsupportedRepeat) {
+      warnings.push('Repeat rule not supported, only the first occurrence is imported');
+    }
+
+    dates.forEach((date, dateIndex) => {
+      const repeat = event.start.isAllDay && dates.length > 1 ? undefined : event.repeat;
+      const excludedDates = repeat
+        ? [...event.excludedDates, ...(event.recurrenceDate ? [] : overriddenDates.get(event.uid) ?? [])]
+        : undefined;
+
+      const block: TimeBlockData = {
+        id: `${Date.now()}-${eventIndex}-${dateIndex}`,
+        title: event.summary || 'Untitled event',
+        date,
+        startTime,
+        endTime,
+        category: category?.name ?? 'Personal',
+        color: event.color ?? category?.color ?? '#FF6B35',
+        tasks,
+        isActive: false,
+        isCompleted: event.isCompleted,
+        progress: event.isCompleted ? 100 : 0,
+        repeat,
+        excludedDates: excludedDates && excludedDates.length > 0 ? excludedDates : undefined,
+      };
+
+      const isPast = repeat
+        ? Boolean(repeat.until && repeat.until < today)
+        : date < today;
+
+      candidates.push({
+        block,
+        overlaps: findOverlappingBlocks(options.existingBlocks, { ...block, date: repeat ? getSeriesStartDate(block) : date }),
+        isAllDay: event.start.isAllDay,
+        isPast,
+        warnings,
+      });
+    });
+  });
+
+  return candidates.sort((a, b) => (a.block.date + a.block.startTime).localeCompare(b.block.date + b.block.startTime));
+};
@@ -0,0 +1,41 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { InboxTask } from '@/utils/storage';
+import { applyBlockUpdate } from '@/utils/recurrence';
+import { createTask, getTaskProgress } from '@/utils/tasks';
+import { getBlockSpan, getMinutesFromDate } from '@/utils/blockTime';
+import { formatDateString } from '@/utils/date';
+
+export type InboxTaskDetails = Pick<InboxTask, 'estimateMinutes' | 'category' | 'dueDate' | 'carriedFrom'>;
+
+export const createInboxTask = (text: string, details: InboxTaskDetails = {}): InboxTask => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  text,
+  ...details,
+  createdAt: new Date().toISOString(),
+});
+
+// Tasks with a due date first, soonest first, then the rest in the order they were captured
+export const sortInboxTasks = (tasks: InboxTask[]): InboxTask[] => {
+  return [...tasks].sort((a, b) => {
+    if (a.dueDate && b.dueDate && a.dueDate !== b.dueDate) return a.dueDate < b.dueDate ? -1 : 1;
+    if (a.dueDate && !b.dueDate) return -1;
+    if (!a.dueDate && b.dueDate) return 1;
+    return a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0;
+  });
+};
+
+// Add an inbox task to the end of a block's checklist. For a repeating block only
+// this occurrence gets the task.
+export const addInboxTaskToBlock = (blocks: TimeBlockData[], block: TimeBlockData, task: InboxTask): TimeBlockData[] => {
+  const tasks = [...block.tasks, { ...createTask(task.text), carriedFrom: task.carriedFrom }];
+  return applyBlockUpdate(blocks, block.id, { tasks, progress: getTaskProgress(tasks) }, 'this');
+};
+
+// A block is finished once it is marked complete or its end time has passed
+export const isBlockFinished = (block: TimeBlockData, now: Date = new Date()): boolean => {
+  if (block.isCompleted) return true;
+  const endFromToday = getMinutesFromDate(formatDateString(now), getBlockSpan(block).end);
+  return endFromToday <= now.getHours() * 60 + now.getMinutes();
+};
+
+export const hasUnfinishedTasks = (block: TimeBlockData): boolean => block.tasks.some(task => !task.isDone);
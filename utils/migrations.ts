@@ -0,0 +1,195 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BLOCKS_KEY, CATEGORIES_KEY, REFLECTIONS_KEY, SETTINGS_KEY, SCHEMA_BACKUP_KEY, DEFAULT_POMODORO_SETTINGS, DEFAULT_SCHEDULING_SETTINGS, DEFAULT_TIMELINE_SNAP_MINUTES } from '@/utils/storage';
+import { normalizeTasks } from '@/utils/tasks';
+import { normalizeDateString } from '@/utils/date';
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Every key whose payload format is covered by the schema version
+const VERSIONED_KEYS = [BLOCKS_KEY, CATEGORIES_KEY, REFLECTIONS_KEY, SETTINGS_KEY];
+
+// Parsed payloads by storage key, null when the key is not stored
+export type StoredData = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData) => StoredData;
+}
+
+interface SchemaBackup {
+  version: number;
+  createdAt: string;
+  payload: Record<string, string | null>; // Raw strings exactly as they were stored
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  success: boolean;
+  error?: unknown;
+}
+
+// Helper function to check for a plain object, so its fields can be read before they're trusted
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+};
+
+// Helper function to update every object in a stored list, leaving anything else as it was
+const mapStoredItems = (
+  data: StoredData,
+  key: string,
+  update: (item: Record<string, unknown>) => Record<string, unknown>
+): StoredData => {
+  const items = data[key];
+  return { ...data, [key]: Array.isArray(items) ? items.map(item => (isRecord(item) ? update(item) : item)) : items };
+};
+
+// Helper function to update the stored settings, leaving missing or unreadable settings as they were
+const mapStoredSettings = (
+  data: StoredData,
+  update: (settings: Record<string, unknown>) => Record<string, unknown>
+): StoredData => {
+  const settings = data[SETTINGS_KEY];
+  return { ...data, [SETTINGS_KEY]: isRecord(settings) ? update(settings) : settings };
+};
+
+// Ordered list of migrations. Never edit a released migration, add a new one instead.
+const migrations: Migration[] = [
+  {
+    version: 2,
+    description: 'Convert block tasks from strings to checklist items',
+    migrate: (data) => mapStoredItems(data, BLOCKS_KEY, block => ({
+      ...block,
+      tasks: Array.isArray(block.tasks) ? normalizeTasks(block.tasks) : [],
+    })),
+  },
+  {
+    version: 3,
+    description: 'Add Pomodoro settings',
+    migrate: (data) => mapStoredSettings(data, settings => ({
+      ...settings,
+      pomodoro: { ...DEFAULT_POMODORO_SETTINGS, ...(isRecord(settings.pomodoro) ? settings.pomodoro : {}) },
+    })),
+  },
+  {
+    version: 4,
+    description: 'Store reflection dates as YYYY-MM-DD instead of Date.toDateString()',
+    migrate: (data) => mapStoredItems(data, REFLECTIONS_KEY, reflection => ({
+      ...reflection,
+      date: typeof reflection.date === 'string' ? normalizeDateString(reflection.date) ?? reflection.date : reflection.date,
+    })),
+  },
+  {
+    version: 5,
+    description: 'Add day planner buffer and category window settings',
+    migrate: (data) => mapStoredSettings(data, settings => ({
+      ...settings,
+      scheduling: { ...DEFAULT_SCHEDULING_SETTINGS, ...(isRecord(settings.scheduling) ? settings.scheduling : {}) },
+    })),
+  },
+  {
+    version: 6,
+    description: 'Add timeline snapping setting',
+    migrate: (data) => mapStoredSettings(data, settings => ({
+      timelineSnapMinutes: DEFAULT_TIMELINE_SNAP_MINUTES,
+      ...settings,
+    })),
+  },
+];
+
+// Data written before versioning was introduced is version 1
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export const CURRENT_SCHEMA_VERSION = migrations.length > 0
+  ? migrations[migrations.length - 1].version
+  : UNVERSIONED_SCHEMA_VERSION;
+
+// Helper function to read the stored schema version, or null on a fresh install
+const getStoredSchemaVersion = async (payload: Record<string, string | null>): Promise<number | null> => {
+  const storedVersion = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  if (storedVersion !== null) {
+    return parseInt(storedVersion, 10);
+  }
+
+  const hasData = Object.values(payload).some(value => value !== null);
+  return hasData ? UNVERSIONED_SCHEMA_VERSION : null;
+};
+
+// Helper function to write raw payloads back, removing keys that were not stored
+const restorePayload = async (payload: Record<string, string | null>) => {
+  const entries = Object.entries(payload);
+  const toSet = entries.filter((entry): entry is [string, string] => entry[1] !== null);
+  const toRemove = entries.filter(([, value]) => value === null).map(([key]) => key);
+
+  if (toSet.length > 0) await AsyncStorage.multiSet(toSet);
+  if (toRemove.length > 0) await AsyncStorage.multiRemove(toRemove);
+};
+
+// Apply every migration newer than fromVersion to parsed payloads, e.g. from an imported backup
+export const migrateStoredData = (data: StoredData, fromVersion: number): StoredData => {
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => migration.migrate(migrated), data);
+};
+
+// Bring stored data up to the current schema. Must run before anything reads from storage.
+export const runMigrations = async (): Promise<MigrationResult> => {
+  const pairs = await AsyncStorage.multiGet(VERSIONED_KEYS);
+  const payload: Record<string, string | null> = Object.fromEntries(pairs);
+  const fromVersion = await getStoredSchemaVersion(payload);
+
+  // Fresh install: nothing to migrate
+  if (fromVersion === null) {
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION.toString());
+    return { fromVersion: CURRENT_SCHEMA_VERSION, toVersion: CURRENT_SCHEMA_VERSION, success: true };
+  }
+
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return { fromVersion, toVersion: fromVersion, success: true };
+  }
+
+  const backup: SchemaBackup = {
+    version: fromVersion,
+    createdAt: new Date().toISOString(),
+    payload,
+  };
+  await AsyncStorage.setItem(SCHEMA_BACKUP_KEY, JSON.stringify(backup));
+
+  try {
+    const parsed: StoredData = Object.fromEntries(
+      Object.entries(payload).map(([key, value]) => [key, value !== null ? JSON.parse(value) : null])
+    );
+    const data = migrateStoredData(parsed, fromVersion);
+
+    const migratedPayload = Object.fromEntries(
+      VERSIONED_KEYS.map(key => [key, data[key] !== null && data[key] !== undefined ? JSON.stringify(data[key]) : null])
+    );
+    await restorePayload(migratedPayload);
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION.toString());
+
+    return { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, success: true };
+  } catch (error) {
+    console.error('Migration failed, restoring backup:', error);
+
+    try {
+      await restorePayload(backup.payload);
+      await AsyncStorage.setItem(SCHEMA_VERSION_KEY, fromVersion.toString());
+    } catch (restoreError) {
+      console.error('Error restoring schema backup:', restoreError);
+    }
+
+    return { fromVersion, toVersion: fromVersion, success: false, error };
+  }
+};
+
+// Backup of the payload from before the last migration, if any
+export const loadSchemaBackup = async (): Promise<SchemaBackup | null> => {
+  try {
+    const backup = await AsyncStorage.getItem(SCHEMA_BACKUP_KEY);
+    return backup ? JSON.parse(backup) : null;
+  } catch (error) {
+    console.error('Error loading schema backup:', error);
+    return null;
+  }
+};
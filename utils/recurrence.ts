@@ -0,0 +1,310 @@
+import { TimeBlockData, RepeatRule, RepeatEditScope } from '@/components/TimeBlock';
+import { resetTasks } from '@/utils/tasks';
+import { addDays, daysBetween, getWeekday } from '@/utils/date';
+
+const OCCURRENCE_ID_SEPARATOR = '@';
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Does the rule produce an occurrence on this date (ignoring until/count limits)?
+const matchesRule = (rule: RepeatRule, seriesStart: string, date: string): boolean => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return daysBetween(seriesStart, date) % interval === 0;
+    case 'weekdays': {
+      const weekday = getWeekday(date);
+      return weekday >= 1 && weekday <= 5;
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? rule.weekdays
+        : [getWeekday(seriesStart)];
+      if (!weekdays.includes(getWeekday(date))) return false;
+
+      // Compare whole weeks between the Sundays that start each week
+      const seriesWeekStart = addDays(seriesStart, -getWeekday(seriesStart));
+      const dateWeekStart = addDays(date, -getWeekday(date));
+      const weeks = Math.round(daysBetween(seriesWeekStart, dateWeekStart) / 7);
+      return weeks % interval === 0;
+    }
+    default:
+      return false;
+  }
+};
+
+// First date the series actually occurs on, which can be after block.date for weekly rules
+export const getSeriesStartDate = (block: TimeBlockData): string => {
+  if (!block.repeat) return block.date;
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(block.date, offset);
+    if (matchesRule(block.repeat, block.date, date)) return date;
+  }
+  return block.date;
+};
+
+export const getOccurrenceId = (seriesId: string, date: string): string => {
+  return `${seriesId}${OCCURRENCE_ID_SEPARATOR}${date}`;
+};
+
+const parseOccurrenceId = (blockId: string): { seriesId: string; date: string } | null => {
+  const separatorIndex = blockId.lastIndexOf(OCCURRENCE_ID_SEPARATOR);
+  if (separatorIndex === -1) return null;
+  return {
+    seriesId: blockId.slice(0, separatorIndex),
+    date: blockId.slice(separatorIndex + 1),
+  };
+};
+
+// Get every date a block occurs on inside the range, honouring until, count and exclusions
+export const getOccurrenceDates = (block: TimeBlockData, startDate: string, endDate: string): string[] => {
+  const rule = block.repeat;
+  if (!rule) {
+    return block.date >= startDate && block.date <= endDate ? [block.date] : [];
+  }
+
+  const excluded = new Set(block.excludedDates ?? []);
+  const lastDate = rule.until && rule.until < endDate ? rule.until : endDate;
+  const dates: string[] = [];
+  let occurrenceCount = 0;
+
+  for (let date = block.date; date <= lastDate; date = addDays(date, 1)) {
+    if (!matchesRule(rule, block.date, date)) continue;
+
+    // Excluded dates still count towards the series length
+    occurrenceCount++;
+    if (rule.count && occurrenceCount > rule.count) break;
+
+    if (date >= startDate && !excluded.has(date)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
+
+const createOccurrence = (series: TimeBlockData, date: string): TimeBlockData => ({
+  ...series,
+  id: getOccurrenceId(series.id, date),
+  date,
+  excludedDates: undefined,
+  seriesId: series.id,
+  occurrenceDate: date,
+  isActive: false,
+  isCompleted: false,
+  progress: 0,
+  tasks: resetTasks(series.tasks),
+});
+
+// Replace repeating blocks with their occurrences inside the range
+export const expandRecurringBlocks = (blocks: TimeBlockData[], startDate: string, endDate: string): TimeBlockData[] => {
+  const expanded: TimeBlockData[] = [];
+
+  blocks.forEach(block => {
+    if (!block.repeat) {
+      if (block.date >= startDate && block.date <= endDate) {
+        expanded.push(block);
+      }
+      return;
+    }
+
+    getOccurrenceDates(block, startDate, endDate).forEach(date => {
+      expanded.push(createOccurrence(block, date));
+    });
+  });
+
+  return expanded;
+};
+
+export const isRecurringOccurrence = (block: TimeBlockData): boolean => !!block.seriesId;
+
+// Strip the series link so a copied block stands on its own
+export const toStandaloneBlock = (block: TimeBlockData): TimeBlockData => {
+  const { repeat, excludedDates, seriesId, occurrenceDate, ...standalone } = block;
+  return standalone;
+};
+
+// Changes applied to a whole series must not carry one occurrence's progress
+const toSeriesChanges = (changes: Partial<TimeBlockData>): Partial<TimeBlockData> => {
+  const { id, date, isActive, isCompleted, progress, seriesId, occurrenceDate, excludedDates, ...seriesChanges } = changes;
+  return seriesChanges;
+};
+
+const createSeriesId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Find the series behind a block id, whether it is a generated occurrence or a stored one
+const resolveOccurrence = (blocks: TimeBlockData[], blockId: string) => {
+  const stored = blocks.find(b => b.id === blockId);
+  const reference = stored?.seriesId && stored.occurrenceDate
+    ? { seriesId: stored.seriesId, date: stored.occurrenceDate }
+    : stored ? null : parseOccurrenceId(blockId);
+  const series = reference ? blocks.find(b => b.id === reference.seriesId && b.repeat) : undefined;
+
+  return { stored, series, date: reference?.date };
+};
+
+// End a series the day before the given date
+const endSeriesBefore = (series: TimeBlockData, date: string): TimeBlockData => {
+  const lastDate = addDays(date, -1);
+  const until = series.repeat!.until && series.repeat!.until < lastDate ? series.repeat!.until : lastDate;
+  return { ...series, repeat: { ...series.repeat!, until } };
+};
+
+/**
+ * Apply changes to a block, which may be one occurrence of a repeating series.
+ * 'this' detaches the occurrence into a stored block that keeps the occurrence id,
+ * 'following' splits the series at the occurrence, and 'all' updates the series itself.
+ */
+export const applyBlockUpdate = (
+  blocks: TimeBlockData[],
+  blockId: string,
+  changes: Partial<TimeBlockData>,
+  scope: RepeatEditScope = 'this'
+): TimeBlockData[] => {
+  const { stored, series, date } = resolveOccurrence(blocks, blockId);
+
+  if (!series || !date) {
+    return blocks.map(b => b.id === blockId ? { ...b, ...changes } : b);
+  }
+
+  const stopsRepeating = 'repeat' in changes && !changes.repeat;
+
+  if (scope === 'all' || (scope === 'following' && date <= series.date)) {
+    return blocks.map(b => {
+      if (b.id === series.id) return { ...b, ...toSeriesChanges(changes) };
+      if (stored && b.id === stored.id) return { ...b, ...changes, repeat: undefined };
+      return b;
+    });
+  }
+
+  if (scope === 'following') {
+    const ruleChanged = 'repeat' in changes;
+    const previousCount = getOccurrenceDates({ ...series, excludedDates: [] }, series.date, addDays(date, -1)).length;
+    const continuedRule = ruleChanged
+      ? changes.repeat
+      : {
+          ...series.repeat!,
+          count: series.repeat!.count ? Math.max(1, series.repeat!.count - previousCount) : undefined,
+        };
+
+    const newSeries: TimeBlockData = {
+      ...series,
+      ...toSeriesChanges(changes),
+      id: stopsRepeating ? getOccurrenceId(series.id, date) : createSeriesId(),
+      date: changes.date ?? date,
+      repeat: continuedRule,
+      excludedDates: series.excludedDates?.filter(d => d >= date),
+      isActive: false,
+      isCompleted: false,
+      progress: 0,
+    };
+
+    const updatedBlocks = blocks.map(b => {
+      if (b.id === series.id) return endSeriesBefore(b, date);
+      if (stored && b.id === stored.id) {
+        const edited = { ...b, ...changes, repeat: undefined };
+        return stopsRepeating ? toStandaloneBlock(edited) : { ...edited, seriesId: newSeries.id };
+      }
+      // Detached occurrences from the split point onwards move to the new series
+      if (!stopsRepeating && b.seriesId === series.id && b.occurrenceDate && b.occurrenceDate >= date) {
+        return { ...b, seriesId: newSeries.id };
+      }
+      return b;
+    });
+
+    if (stopsRepeating) {
+      // Only this occurrence survives, as a plain block
+      return stored ? updatedBlocks : [...updatedBlocks, toStandaloneBlock(newSeries)];
+    }
+
+    return [...updatedBlocks, newSeries];
+  }
+
+  // scope === 'this'
+  if (stored) {
+    return blocks.map(b => b.id === stored.id ? { ...b, ...changes, repeat: undefined } : b);
+  }
+
+  const detached: TimeBlockData = {
+    ...createOccurrence(series, date),
+    ...changes,
+    id: getOccurrenceId(series.id, date),
+    repeat: undefined,
+    excludedDates: undefined,
+    seriesId: series.id,
+    occurrenceDate: date,
+  };
+
+  return [
+    ...blocks.map(b => b.id === series.id
+      ? { ...b, excludedDates: [...(b.excludedDates ?? []), date] }
+      : b
+    ),
+    detached,
+  ];
+};
+
+// Remove a block, or some of the occurrences of the series it belongs to
+export const removeBlock = (
+  blocks: TimeBlockData[],
+  blockId: string,
+  scope: RepeatEditScope = 'this'
+): TimeBlockData[] => {
+  const { stored, series, date } = resolveOccurrence(blocks, blockId);
+
+  if (!series || !date) {
+    return blocks.filter(b => b.id !== blockId);
+  }
+
+  if (scope === 'all' || (scope === 'following' && date <= series.date)) {
+    return blocks.filter(b => b.id !== series.id && b.seriesId !== series.id);
+  }
+
+  if (scope === 'following') {
+    return blocks
+      .filter(b => !(b.seriesId === series.id && b.occurrenceDate && b.occurrenceDate >= date))
+      .map(b => b.id === series.id ? endSeriesBefore(b, date) : b);
+  }
+
+  // scope === 'this': a stored occurrence already has its date excluded from the series
+  if (stored) {
+    return blocks.filter(b => b.id !== stored.id);
+  }
+
+  return blocks.map(b => b.id === series.id
+    ? { ...b, excludedDates: [...(b.excludedDates ?? []), date] }
+    : b
+  );
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed until 2025-03-01"
+export const describeRepeatRule = (rule: RepeatRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let description: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'weekdays':
+      description = 'Every weekday';
+      break;
+    case 'weekly': {
+      const days = (rule.weekdays ?? []).slice().sort().map(day => WEEKDAY_NAMES[day]).join(', ');
+      description = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      if (days) description += ` on ${days}`;
+      break;
+    }
+    default:
+      description = 'Repeats';
+  }
+
+  if (rule.until) {
+    description += ` until ${rule.until}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+};
@@ -0,0 +1,195 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { BlockCategory, CategoryWindow, getBlocksOnDate } from '@/utils/storage';
+import { MINUTES_PER_DAY, timeToMinutes, minutesToTime, getBlockSpan, getMinutesFromDate } from '@/utils/blockTime';
+import { addDays } from '@/utils/date';
+
+// Planned blocks start on a multiple of this many minutes
+const SLOT_MINUTES = 5;
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+export interface PlannerTask {
+  id: string;
+  title: string;
+  category: string;
+  durationMinutes: number;
+  priority: TaskPriority;
+}
+
+export interface DayPlanOptions {
+  workingHours: { start: string; end: string };
+  bufferMinutes: number;
+  categoryWindows: CategoryWindow[];
+  categories: BlockCategory[]; // Used for block colors
+  earliestStart?: string; // Nothing is planned before this time, e.g. the current time today
+}
+
+export interface PlannedTask {
+  task: PlannerTask;
+  block: TimeBlockData;
+}
+
+export interface UnplannedTask {
+  task: PlannerTask;
+  reason: string;
+}
+
+export interface DayPlan {
+  planned: PlannedTask[];
+  unplanned: UnplannedTask[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const FALLBACK_COLOR = '#FF6B35';
+
+// Helper function to read a start/end pair as minutes from midnight. An end at or before
+// the start runs past midnight.
+const toInterval = (start: string, end: string): Interval => {
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+  return { start: startMinutes, end: endMinutes > startMinutes ? endMinutes : endMinutes + MINUTES_PER_DAY };
+};
+
+const roundUpToSlot = (minutes: number) => Math.ceil(minutes / SLOT_MINUTES) * SLOT_MINUTES;
+
+// Hours a task may be planned in: working hours, narrowed to its category's window if it has one
+const getTaskWindow = (task: PlannerTask, options: DayPlanOptions): Interval | null => {
+  const workingWindow = toInterval(options.workingHours.start, options.workingHours.end);
+  const categoryWindow = options.categoryWindows.find(window => window.category === task.category);
+  if (!categoryWindow) return workingWindow;
+
+  const narrowed = toInterval(categoryWindow.start, categoryWindow.end);
+  const start = Math.max(workingWindow.start, narrowed.start);
+  const end = Math.min(workingWindow.end, narrowed.end);
+  return start < end ? { start, end } : null;
+};
+
+// Time already taken on the date, and on the next day for working hours that run past midnight
+const getBusyIntervals = (blocks: TimeBlockData[], date: string): Interval[] => {
+  const sameDay = getBlocksOnDate(blocks, date);
+  const nextDay = getBlocksOnDate(blocks, addDays(date, 1)).filter(block => !sameDay.some(b => b.id === block.id));
+
+  return [...sameDay, ...nextDay].map(block => {
+    const span = getBlockSpan(block);
+    return { start: getMinutesFromDate(date, span.start), end: getMinutesFromDate(date, span.end) };
+  });
+};
+
+// Earliest start inside the window where the task fits with the buffer kept free on both
+// sides of every busy interval, or null when there is no gap long enough
+const findEarliestGap = (busy: Interval[], window: Interval, duration: number, buffer: number): number | null => {
+  let start = roundUpToSlot(window.start);
+
+  while (start + duration <= window.end) {
+    const end = start + duration;
+    const clashes = busy.filter(interval => interval.start - buffer < end && start < interval.end + buffer);
+    if (clashes.length === 0) return start;
+
+    start = roundUpToSlot(Math.max(...clashes.map(interval => interval.end + buffer)));
+  }
+
+  return null;
+};
+
+const formatMinutes12Hour = (minutes: number) => {
+  const [hour, minute] = minutesToTime(minutes).split(':').map(Number);
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour === 0 ? 12 : hour > 12 ? hour - 12 : hour;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${period}`;
+};
+
+// Place tasks into the free gaps of a date, highest priority first and otherwise in the
+// order given. Each task becomes a block at the earliest time it fits.
+export const planDay = (
+  blocks: TimeBlockData[],
+  tasks: PlannerTask[],
+  date: string,
+  options: DayPlanOptions
+): DayPlan => {
+  const busy = getBusyIntervals(blocks, date);
+  const earliestStart = options.earliestStart ? timeToMinutes(options.earliestStart) : 0;
+  const orderedTasks = [...tasks].sort((a, b) => TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority));
+  const plan: DayPlan = { planned: [], unplanned: [] };
+
+  orderedTasks.forEach(task => {
+    const taskWindow = getTaskWindow(task, options);
+    if (!taskWindow) {
+      plan.unplanned.push({ task, reason: `${task.category} hours don't overlap your working hours` });
+      return;
+    }
+
+    const window = { start: Math.max(taskWindow.start, earliestStart), end: taskWindow.end };
+    if (window.end - window.start < task.durationMinutes) {
+      plan.unplanned.push({
+        task,
+        reason: window.start >= window.end
+          ? `No time left before ${formatMinutes12Hour(window.end)}`
+          : `Longer than the time between ${formatMinutes12Hour(window.start)} and ${formatMinutes12Hour(window.end)}`,
+      });
+      return;
+    }
+
+    const start = findEarliestGap(busy, window, task.durationMinutes, options.bufferMinutes);
+    if (start === null) {
+      plan.unplanned.push({
+        task,
+        reason: `No free gap between ${formatMinutes12Hour(window.start)} and ${formatMinutes12Hour(window.end)}`,
+      });
+      return;
+    }
+
+    const end = start + task.durationMinutes;
+    busy.push({ start, end });
+    plan.planned.push({
+      task,
+      block: {
+        id: `${Date.now()}-${plan.planned.length}`,
+        title: task.title,
+        date: start >= MINUTES_PER_DAY ? addDays(date, 1) : date, // Late working hours may run past midnight
+        startTime: minutesToTime(start),
+        endTime: minutesToTime(end),
+        category: task.category,
+        color: options.categories.find(category => category.name === task.category)?.color ?? FALLBACK_COLOR,
+        tasks: [],
+        isActive: false,
+        isCompleted: false,
+        progress: 0,
+      },
+    });
+  });
+
+  plan.planned.sort((a, b) => getBlockSpan(a.block).start - getBlockSpan(b.block).start);
+  return plan;
+};
+
+// A planned block moved by the given minutes. It stays inside the hours its task may be planned
+// in, measured from the start of the plan's date, so a nudge never wraps it past midnight.
+export const nudgePlannedBlock = (
+  item: PlannedTask,
+  minutes: number,
+  date: string,
+  options: DayPlanOptions
+): TimeBlockData => {
+  const taskWindow = getTaskWindow(item.task, options) ?? { start: 0, end: MINUTES_PER_DAY };
+  const earliestStart = options.earliestStart ? timeToMinutes(options.earliestStart) : 0;
+  const span = getBlockSpan(item.block);
+  const duration = span.end - span.start;
+
+  const minStart = Math.max(taskWindow.start, earliestStart);
+  const maxStart = taskWindow.end - duration;
+  if (maxStart < minStart) return item.block;
+
+  const start = Math.min(Math.max(getMinutesFromDate(date, span.start) + minutes, minStart), maxStart);
+  return {
+    ...item.block,
+    date: start >= MINUTES_PER_DAY ? addDays(date, 1) : date,
+    startTime: minutesToTime(start),
+    endTime: minutesToTime(start + duration),
+  };
+};
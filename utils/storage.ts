@@ -1,10 +1,21 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { TimeBlockData } from '@/components/TimeBlock';
+import { TimeBlockData, TaskOrigin } from '@/components/TimeBlock';
+import { expandRecurringBlocks } from '@/utils/recurrence';
+import { createTasks } from '@/utils/tasks';
+import { timeToMinutes, getBlockDurationMinutes, isOvernightBlock } from '@/utils/blockTime';
+import { getTodayDateString, addDays } from '@/utils/date';
 
-const BLOCKS_KEY = 'timeBlocks';
-const CATEGORIES_KEY = 'blockCategories';
-const REFLECTIONS_KEY = 'dailyReflections';
-const SETTINGS_KEY = 'appSettings';
+export const BLOCKS_KEY = 'timeBlocks';
+export const CATEGORIES_KEY = 'blockCategories';
+export const REFLECTIONS_KEY = 'dailyReflections';
+export const SETTINGS_KEY = 'appSettings';
+export const SESSIONS_KEY = 'focusSessions';
+export const INBOX_KEY = 'inboxTasks';
+export const ROLLOVER_KEY = 'lastRolloverDate';
+export const TEMPLATES_KEY = 'blockTemplates';
+export const DAY_TEMPLATES_KEY = 'dayTemplates';
+export const FOCUS_SESSION_KEY = 'focusSession'; // Running focus timer, see utils/focusSession
+export const SCHEMA_BACKUP_KEY = 'schemaBackup'; // Pre-migration copy of user data, see utils/migrations
 
 export interface BlockCategory {
   id: string;
@@ -14,13 +25,106 @@ export interface BlockCategory {
 }
 
 export interface DailyReflection {
-  date: string;
+  date: string; // YYYY-MM-DD
   blockId: string;
   blockTitle: string;
   reflection: string;
   rating: number;
 }
 
+// A task captured without a block, waiting to be scheduled
+export interface InboxTask {
+  id: string;
+  text: string;
+  estimateMinutes?: number;
+  category?: string;
+  dueDate?: string; // YYYY-MM-DD
+  createdAt: string; // ISO timestamp
+  carriedFrom?: TaskOrigin; // Block the task was left unfinished in
+}
+
+// A reusable block setup, listed in the user's chosen order
+export interface BlockTemplate {
+  id: string;
+  name: string;
+  title: string;
+  durationMinutes: number;
+  category: string;
+  color: string;
+  tasks: string[];
+}
+
+// A block in a day template, placed by time of day rather than on a date
+export interface DayTemplateBlock {
+  title: string;
+  startTime: string;
+  durationMinutes: number;
+  category: string;
+  color: string;
+  tasks: string[];
+}
+
+// A whole day's layout that can be applied to any date
+export interface DayTemplate {
+  id: string;
+  name: string;
+  blocks: DayTemplateBlock[];
+  createdAt: string; // ISO timestamp
+}
+
+export type SessionEventType =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'reset'
+  | 'extend'
+  | 'intervalComplete'
+  | 'intervalSkip'
+  | 'complete'
+  | 'end';
+
+export type PomodoroIntervalType = 'work' | 'shortBreak' | 'longBreak';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  at: string; // ISO timestamp
+  minutes?: number; // Added time for 'extend'
+  interval?: PomodoroIntervalType; // Interval that ended, for 'intervalComplete' and 'intervalSkip'
+  nextStarted?: boolean; // Whether the following interval started right away
+}
+
+// History of one focus session on a block
+export interface FocusSessionRecord {
+  id: string;
+  blockId: string;
+  blockTitle: string;
+  category: string;
+  date: string; // Day the session was started
+  plannedMinutes: number;
+  events: SessionEvent[];
+}
+
+export interface PomodoroSettings {
+  enabled: boolean;
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+  autoStartNext: boolean;
+}
+
+// Hours of the day the day planner may use for blocks of one category
+export interface CategoryWindow {
+  category: string;
+  start: string;
+  end: string;
+}
+
+export interface SchedulingSettings {
+  bufferMinutes: number; // Free time the day planner leaves around every block
+  categoryWindows: CategoryWindow[];
+}
+
 export interface AppSettings {
   isDarkMode: boolean;
   notificationsEnabled: boolean;
@@ -29,47 +133,63 @@ export interface AppSettings {
     end: string;
   };
   defaultDuration: number;
+  timelineSnapMinutes: number; // Step that dragged blocks snap to on the day timeline
+  pomodoro: PomodoroSettings;
+  scheduling: SchedulingSettings;
 }
 
-// Helper function to sort blocks by date and time
+export const DEFAULT_TIMELINE_SNAP_MINUTES = 15;
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  enabled: false,
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+  autoStartNext: true,
+};
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  bufferMinutes: 10,
+  categoryWindows: [],
+};
+
+// Helper function to sort blocks by date and time. Blocks are ordered by the day they
+// start, so one carried over from the night before comes first.
 const sortBlocksByDateTime = (blocks: TimeBlockData[]): TimeBlockData[] => {
   return blocks.sort((a, b) => {
-    // First sort by date
-    const dateA = new Date(a.date);
-    const dateB = new Date(b.date);
-    
-    if (dateA.getTime() !== dateB.getTime()) {
-      return dateA.getTime() - dateB.getTime();
+    // First sort by date (YYYY-MM-DD strings sort chronologically)
+    if (a.date !== b.date) {
+      return a.date < b.date ? -1 : 1;
     }
     
-    // If dates are the same, sort by time
-    const timeA = a.startTime.split(':').map(Number);
-    const timeB = b.startTime.split(':').map(Number);
-    const minutesA = timeA[0] * 60 + timeA[1];
-    const minutesB = timeB[0] * 60 + timeB[1];
-    return minutesA - minutesB;
+    // If dates are the same, sort by start time, then the shorter block first
+    const startDifference = timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+    if (startDifference !== 0) {
+      return startDifference;
+    }
+    return getBlockDurationMinutes(a) - getBlockDurationMinutes(b);
   });
 };
 
-// Helper function to filter blocks by date
+
+// Helper function to filter blocks by date, including occurrences of repeating blocks
 export const filterBlocksByDate = (blocks: TimeBlockData[], date: string): TimeBlockData[] => {
-  return blocks.filter(block => block.date === date);
+  return sortBlocksByDateTime(expandRecurringBlocks(blocks, date, date));
 };
 
-// Helper function to get today's date string
-export const getTodayDateString = (): string => {
-  return new Date().toISOString().split('T')[0];
+// Helper function to get every block that takes up time on a date: the ones starting on it,
+// plus overnight blocks from the day before that run past midnight into it
+export const getBlocksOnDate = (blocks: TimeBlockData[], date: string): TimeBlockData[] => {
+  return sortBlocksByDateTime(
+    expandRecurringBlocks(blocks, addDays(date, -1), date)
+      .filter(block => block.date === date || isOvernightBlock(block))
+  );
 };
 
-// Helper function to get blocks for a specific date range
+// Helper function to get blocks for a specific date range, including occurrences of repeating blocks
 export const getBlocksInDateRange = (blocks: TimeBlockData[], startDate: string, endDate: string): TimeBlockData[] => {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  
-  return blocks.filter(block => {
-    const blockDate = new Date(block.date);
-    return blockDate >= start && blockDate <= end;
-  });
+  return sortBlocksByDateTime(expandRecurringBlocks(blocks, startDate, endDate));
 };
 
 // Settings
@@ -156,6 +276,14 @@ export const saveReflection = async (reflection: DailyReflection) => {
   }
 };
 
+export const saveReflections = async (reflections: DailyReflection[]) => {
+  try {
+    await AsyncStorage.setItem(REFLECTIONS_KEY, JSON.stringify(reflections));
+  } catch (error) {
+    console.error('Error saving reflections:', error);
+  }
+};
+
 export const loadReflections = async (): Promise<DailyReflection[]> => {
   try {
     const reflections = await AsyncStorage.getItem(REFLECTIONS_KEY);
@@ -166,6 +294,188 @@ export const loadReflections = async (): Promise<DailyReflection[]> => {
   }
 };
 
+// Focus sessions
+export const saveSessions = async (sessions: FocusSessionRecord[]) => {
+  try {
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error('Error saving focus sessions:', error);
+  }
+};
+
+export const loadSessions = async (): Promise<FocusSessionRecord[]> => {
+  try {
+    const sessions = await AsyncStorage.getItem(SESSIONS_KEY);
+    return sessions ? JSON.parse(sessions) : [];
+  } catch (error) {
+    console.error('Error loading focus sessions:', error);
+    return [];
+  }
+};
+
+// Helper function to build a session event stamped with the given time
+export const createSessionEvent = (type: SessionEventType, at: number, details: Partial<SessionEvent> = {}): SessionEvent => ({
+  type,
+  at: new Date(at).toISOString(),
+  ...details,
+});
+
+// Append events to a session, creating the record on its first event
+export const recordSessionEvents = async (
+  sessionId: string,
+  block: TimeBlockData,
+  plannedMinutes: number,
+  events: SessionEvent[]
+) => {
+  if (events.length === 0) return;
+
+  try {
+    const sessions = await loadSessions();
+    const existing = sessions.find(session => session.id === sessionId);
+
+    const updated = existing
+      ? sessions.map(session => session.id === sessionId ? { ...session, events: [...session.events, ...events] } : session)
+      : [...sessions, {
+          id: sessionId,
+          blockId: block.id,
+          blockTitle: block.title,
+          category: block.category,
+          date: getTodayDateString(),
+          plannedMinutes,
+          events,
+        }];
+
+    await saveSessions(updated);
+  } catch (error) {
+    console.error('Error recording focus session event:', error);
+  }
+};
+
+// Time actually spent focusing: running from start/resume/reset until the next pause/complete/end.
+// Pomodoro breaks don't count, and a session that is still running counts up to now.
+export const getFocusedMinutes = (session: FocusSessionRecord, now: number = Date.now()): number => {
+  let focusedMs = 0;
+  let runningSince: number | null = null;
+  let isBreak = false;
+
+  const stopRunning = (at: number) => {
+    if (runningSince !== null && !isBreak) {
+      focusedMs += Math.max(0, at - runningSince);
+    }
+    runningSince = null;
+  };
+
+  for (const event of session.events) {
+    const at = Date.parse(event.at);
+    switch (event.type) {
+      case 'start':
+      case 'resume':
+        if (runningSince === null) runningSince = at;
+        break;
+      case 'reset':
+        stopRunning(at);
+        isBreak = false;
+        runningSince = at;
+        break;
+      case 'intervalComplete':
+      case 'intervalSkip':
+        stopRunning(at);
+        isBreak = event.interval === 'work';
+        if (event.nextStarted) runningSince = at;
+        break;
+      case 'pause':
+      case 'complete':
+      case 'end':
+        stopRunning(at);
+        break;
+    }
+  }
+
+  stopRunning(now);
+
+  return focusedMs / 60000;
+};
+
+// Inbox
+export const saveInboxTasks = async (tasks: InboxTask[]) => {
+  try {
+    await AsyncStorage.setItem(INBOX_KEY, JSON.stringify(tasks));
+  } catch (error) {
+    console.error('Error saving inbox tasks:', error);
+  }
+};
+
+export const loadInboxTasks = async (): Promise<InboxTask[]> => {
+  try {
+    const tasks = await AsyncStorage.getItem(INBOX_KEY);
+    return tasks ? JSON.parse(tasks) : [];
+  } catch (error) {
+    console.error('Error loading inbox tasks:', error);
+    return [];
+  }
+};
+
+// Block templates
+export const saveTemplates = async (templates: BlockTemplate[]) => {
+  try {
+    await AsyncStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error saving templates:', error);
+  }
+};
+
+export const loadTemplates = async (): Promise<BlockTemplate[]> => {
+  try {
+    const templates = await AsyncStorage.getItem(TEMPLATES_KEY);
+    return templates ? JSON.parse(templates) : [];
+  } catch (error) {
+    console.error('Error loading templates:', error);
+    return [];
+  }
+};
+
+// Day templates
+export const saveDayTemplates = async (templates: DayTemplate[]) => {
+  try {
+    await AsyncStorage.setItem(DAY_TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('Error saving day templates:', error);
+  }
+};
+
+export const loadDayTemplates = async (): Promise<DayTemplate[]> => {
+  try {
+    const templates = await AsyncStorage.getItem(DAY_TEMPLATES_KEY);
+    return templates ? JSON.parse(templates) : [];
+  } catch (error) {
+    console.error('Error loading day templates:', error);
+    return [];
+  }
+};
+
+// Day rollover: the last date unfinished tasks from earlier days were offered for carrying over
+export const saveLastRolloverDate = async (date: string) => {
+  try {
+    await AsyncStorage.setItem(ROLLOVER_KEY, date);
+  } catch (error) {
+    console.error('Error saving rollover date:', error);
+  }
+};
+
+export const loadLastRolloverDate = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(ROLLOVER_KEY);
+  } catch (error) {
+    console.error('Error loading rollover date:', error);
+    return null;
+  }
+};
+
+// Helper function to total the focused minutes of several sessions
+export const getTotalFocusedMinutes = (sessions: FocusSessionRecord[]): number => {
+  return sessions.reduce((total, session) => total + getFocusedMinutes(session), 0);
+};
+
 // ENHANCED RESET FUNCTIONALITY - Complete data wipe
 export const resetAllData = async (): Promise<boolean> => {
   try {
@@ -181,7 +491,14 @@ export const resetAllData = async (): Promise<boolean> => {
       CATEGORIES_KEY, 
       REFLECTIONS_KEY,
       SETTINGS_KEY,
-      'app_theme_mode' // Theme storage key from ThemeContext
+      SESSIONS_KEY,
+      INBOX_KEY,
+      ROLLOVER_KEY,
+      TEMPLATES_KEY,
+      DAY_TEMPLATES_KEY,
+      'app_theme_mode', // Theme storage key from ThemeContext
+      SCHEMA_BACKUP_KEY,
+      FOCUS_SESSION_KEY,
     ];
     
     // Filter keys that exist and belong to our app
@@ -264,6 +581,38 @@ export const clearReflections = async () => {
   }
 };
 
+export const clearSessions = async () => {
+  try {
+    await AsyncStorage.removeItem(SESSIONS_KEY);
+  } catch (error) {
+    console.error('Error clearing focus sessions:', error);
+  }
+};
+
+export const clearInbox = async () => {
+  try {
+    await AsyncStorage.removeItem(INBOX_KEY);
+  } catch (error) {
+    console.error('Error clearing inbox:', error);
+  }
+};
+
+export const clearTemplates = async () => {
+  try {
+    await AsyncStorage.removeItem(TEMPLATES_KEY);
+  } catch (error) {
+    console.error('Error clearing templates:', error);
+  }
+};
+
+export const clearDayTemplates = async () => {
+  try {
+    await AsyncStorage.removeItem(DAY_TEMPLATES_KEY);
+  } catch (error) {
+    console.error('Error clearing day templates:', error);
+  }
+};
+
 export const clearSettings = async () => {
   try {
     await AsyncStorage.removeItem(SETTINGS_KEY);
@@ -293,18 +642,27 @@ export const debugStorage = async () => {
 // Check if app has any data
 export const hasAnyData = async (): Promise<boolean> => {
   try {
-    const [blocks, reflections] = await Promise.all([
+    const [blocks, reflections, inboxTasks, templates, dayTemplates] = await Promise.all([
       loadTimeBlocks(),
-      loadReflections()
+      loadReflections(),
+      loadInboxTasks(),
+      loadTemplates(),
+      loadDayTemplates()
     ]);
     
-    return blocks.length > 0 || reflections.length > 0;
+    return blocks.length > 0 || reflections.length > 0 || inboxTasks.length > 0
+      || templates.length > 0 || dayTemplates.length > 0;
   } catch (error) {
     console.error('Error checking for data:', error);
     return false;
   }
 };
 
+// Helper function to create sample tasks that are already ticked off
+const createDoneTasks = (texts: string[]) => {
+  return createTasks(texts).map(task => ({ ...task, isDone: true, completedAt: new Date().toISOString() }));
+};
+
 // Default data
 const getDefaultSettings = (): AppSettings => ({
   isDarkMode: false,
@@ -314,16 +672,15 @@ const getDefaultSettings = (): AppSettings => ({
     end: '17:00',
   },
   defaultDuration: 60,
+  timelineSnapMinutes: DEFAULT_TIMELINE_SNAP_MINUTES,
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
+  scheduling: DEFAULT_SCHEDULING_SETTINGS,
 });
 
 const getDefaultBlocks = (): TimeBlockData[] => {
   const today = getTodayDateString();
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  const yesterdayString = yesterday.toISOString().split('T')[0];
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const tomorrowString = tomorrow.toISOString().split('T')[0];
+  const yesterdayString = addDays(today, -1);
+  const tomorrowString = addDays(today, 1);
   
   return [
     // Yesterday's completed blocks
@@ -335,7 +692,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '09:30',
       category: 'Admin',
       color: '#2E8B8B',
-      tasks: ['Review weekly goals', 'Plan daily priorities', 'Check calendar'],
+      tasks: createDoneTasks(['Review weekly goals', 'Plan daily priorities', 'Check calendar']),
       isActive: false,
       isCompleted: true,
       progress: 100,
@@ -348,7 +705,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '12:00',
       category: 'Creative',
       color: '#FF6B35',
-      tasks: ['Implement user authentication', 'Write unit tests', 'Code review'],
+      tasks: createDoneTasks(['Implement user authentication', 'Write unit tests', 'Code review']),
       isActive: false,
       isCompleted: true,
       progress: 100,
@@ -361,7 +718,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '15:30',
       category: 'Learning',
       color: '#4F8B3B',
-      tasks: ['React Native tutorial', 'Practice animations', 'Take notes'],
+      tasks: createDoneTasks(['React Native tutorial', 'Practice animations', 'Take notes']),
       isActive: false,
       isCompleted: true,
       progress: 100,
@@ -376,7 +733,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '11:00',
       category: 'Creative',
       color: '#FF6B35',
-      tasks: ['Review project requirements', 'Design system architecture'],
+      tasks: createDoneTasks(['Review project requirements', 'Design system architecture']),
       isActive: false,
       isCompleted: true,
       progress: 100,
@@ -389,7 +746,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '11:30',
       category: 'Admin',
       color: '#2E8B8B',
-      tasks: ['Share yesterday progress', 'Discuss blockers'],
+      tasks: createDoneTasks(['Share yesterday progress', 'Discuss blockers']),
       isActive: false,
       isCompleted: true,
       progress: 100,
@@ -402,7 +759,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '15:00',
       category: 'Creative',
       color: '#FF6B35',
-      tasks: ['Implement user authentication', 'Write unit tests'],
+      tasks: createTasks(['Implement user authentication', 'Write unit tests']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -415,7 +772,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '15:30',
       category: 'Admin',
       color: '#2E8B8B',
-      tasks: ['Reply to client emails', 'Update project status'],
+      tasks: createTasks(['Reply to client emails', 'Update project status']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -428,7 +785,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '17:00',
       category: 'Personal',
       color: '#8B4F9F',
-      tasks: ['Read productivity articles', 'Plan weekend goals'],
+      tasks: createTasks(['Read productivity articles', 'Plan weekend goals']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -443,7 +800,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '10:00',
       category: 'Admin',
       color: '#2E8B8B',
-      tasks: ['Review last week', 'Set weekly goals', 'Plan major tasks'],
+      tasks: createTasks(['Review last week', 'Set weekly goals', 'Plan major tasks']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -456,7 +813,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '12:30',
       category: 'Creative',
       color: '#FF6B35',
-      tasks: ['Design new features', 'Create wireframes', 'User research'],
+      tasks: createTasks(['Design new features', 'Create wireframes', 'User research']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -469,7 +826,7 @@ const getDefaultBlocks = (): TimeBlockData[] => {
       endTime: '19:00',
       category: 'Health',
       color: '#B85C38',
-      tasks: ['Evening workout', 'Meditation session', 'Meal prep'],
+      tasks: createTasks(['Evening workout', 'Meditation session', 'Meal prep']),
       isActive: false,
       isCompleted: false,
       progress: 0,
@@ -486,10 +843,8 @@ const getDefaultCategories = (): BlockCategory[] => [
 ];
 
 const getDefaultReflections = (): DailyReflection[] => {
-  const today = new Date().toDateString();
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  const yesterdayString = yesterday.toDateString();
+  const today = getTodayDateString();
+  const yesterdayString = addDays(today, -1);
   
   return [
     // Yesterday's reflections
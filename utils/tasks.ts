@@ -0,0 +1,56 @@
+import { BlockTask, TaskOrigin, TimeBlockData } from '@/components/TimeBlock';
+
+// Helper function to create a new unchecked task
+export const createTask = (text: string): BlockTask => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  text,
+  isDone: false,
+});
+
+// Helper function to turn a list of task texts into unchecked tasks
+export const createTasks = (texts: string[]): BlockTask[] => texts.map(createTask);
+
+// Older versions stored tasks as plain strings
+export const normalizeTasks = (tasks: (BlockTask | string)[] | undefined): BlockTask[] => {
+  if (!Array.isArray(tasks)) return [];
+
+  return tasks.map(task => (typeof task === 'string' ? createTask(task) : task));
+};
+
+// Percentage of tasks ticked off, rounded to a whole number
+export const getTaskProgress = (tasks: BlockTask[]): number => {
+  if (tasks.length === 0) return 0;
+  const doneCount = tasks.filter(task => task.isDone).length;
+  return Math.round((doneCount / tasks.length) * 100);
+};
+
+export const toggleTask = (tasks: BlockTask[], taskId: string): BlockTask[] => {
+  return tasks.map(task => {
+    if (task.id !== taskId) return task;
+    return task.isDone
+      ? { ...task, isDone: false, completedAt: undefined }
+      : { ...task, isDone: true, completedAt: new Date().toISOString() };
+  });
+};
+
+// Unchecked copies for a fresh occurrence or a copied block
+export const resetTasks = (tasks: BlockTask[]): BlockTask[] => {
+  return tasks.map(task => ({ ...task, isDone: false, completedAt: undefined }));
+};
+
+// Block changes for ticking a task, with progress following the checklist
+export const getTaskToggleChanges = (block: TimeBlockData, taskId: string): Partial<TimeBlockData> => {
+  const tasks = toggleTask(block.tasks, taskId);
+  return { tasks, progress: getTaskProgress(tasks) };
+};
+
+// Where a task carried out of a block came from. A task carried more than once keeps its first block.
+export const getTaskOrigin = (task: BlockTask, block: TimeBlockData): TaskOrigin => {
+  return task.carriedFrom ?? { blockId: block.id, blockTitle: block.title, date: block.date };
+};
+
+// Unchecked copy of a task for the block it is carried into
+export const carryTask = (task: BlockTask, block: TimeBlockData): BlockTask => ({
+  ...createTask(task.text),
+  carriedFrom: getTaskOrigin(task, block),
+});
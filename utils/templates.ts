@@ -0,0 +1,57 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { BlockTemplate, loadTemplates, saveTemplates } from '@/utils/storage';
+import { addMinutesToTime, getBlockDurationMinutes } from '@/utils/blockTime';
+import { createTasks } from '@/utils/tasks';
+
+export type TemplateFields = Omit<BlockTemplate, 'id'>;
+
+export const createTemplate = (fields: TemplateFields): BlockTemplate => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  ...fields,
+});
+
+// Template fields taken from a block, named after its title
+export const getTemplateFieldsFromBlock = (block: TimeBlockData): TemplateFields => ({
+  name: block.title,
+  title: block.title,
+  durationMinutes: getBlockDurationMinutes(block),
+  category: block.category,
+  color: block.color,
+  tasks: block.tasks.map(task => task.text),
+});
+
+// A new block from a template, starting at the given time
+export const createBlockFromTemplate = (template: BlockTemplate, date: string, startTime: string): TimeBlockData => ({
+  id: Date.now().toString(),
+  title: template.title,
+  date,
+  startTime,
+  endTime: addMinutesToTime(startTime, template.durationMinutes),
+  category: template.category,
+  color: template.color,
+  tasks: createTasks(template.tasks),
+  isActive: false,
+  isCompleted: false,
+  progress: 0,
+});
+
+// Add or update a template in storage, keeping its place in the list
+export const saveTemplate = async (template: BlockTemplate): Promise<BlockTemplate[]> => {
+  const templates = await loadTemplates();
+  const updatedTemplates = templates.some(t => t.id === template.id)
+    ? templates.map(t => (t.id === template.id ? template : t))
+    : [...templates, template];
+  await saveTemplates(updatedTemplates);
+  return updatedTemplates;
+};
+
+// Move a template one place up (-1) or down (1) in the list
+export const moveTemplate = (templates: BlockTemplate[], templateId: string, offset: -1 | 1): BlockTemplate[] => {
+  const index = templates.findIndex(template => template.id === templateId);
+  const targetIndex = index + offset;
+  if (index === -1 || targetIndex < 0 || targetIndex >= templates.length) return templates;
+
+  const reordered = [...templates];
+  [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+  return reordered;
+};
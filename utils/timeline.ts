@@ -0,0 +1,120 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getBlockSpan, getMinutesFromDate, MINUTES_PER_DAY } from '@/utils/blockTime';
+
+// Hours shown even on an empty or short day
+const DEFAULT_START_HOUR = 8;
+const DEFAULT_END_HOUR = 18;
+
+// Gaps shorter than this aren't labelled as free time
+const MIN_GAP_MINUTES = 15;
+
+export interface TimelineItem {
+  block: TimeBlockData;
+  start: number; // Minutes from midnight of the timeline date, clipped to the day
+  end: number;
+  column: number; // Overlapping blocks sit side by side
+  columnCount: number;
+}
+
+export interface TimelineGap {
+  start: number;
+  end: number;
+}
+
+export interface TimelineLayout {
+  items: TimelineItem[];
+  gaps: TimelineGap[];
+  startHour: number;
+  endHour: number;
+}
+
+// Helper function to split overlapping blocks into columns, one cluster of overlaps at a time
+const assignColumns = (items: Omit<TimelineItem, 'column' | 'columnCount'>[]): TimelineItem[] => {
+  const placed: TimelineItem[] = [];
+  let cluster: TimelineItem[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    const columnCount = Math.max(1, ...cluster.map(item => item.column + 1));
+    cluster.forEach(item => placed.push({ ...item, columnCount }));
+    cluster = [];
+  };
+
+  items.forEach(item => {
+    if (item.start >= clusterEnd) closeCluster();
+
+    // First column whose last block has ended
+    let column = 0;
+    while (cluster.some(other => other.column === column && other.end > item.start)) column++;
+
+    cluster.push({ ...item, column, columnCount: 1 });
+    clusterEnd = Math.max(clusterEnd, item.end);
+  });
+  closeCluster();
+
+  return placed;
+};
+
+// Lay out a date's blocks on a vertical time scale. Overnight blocks are clipped to the part
+// that falls on the date, and the visible hours stretch to cover every block and "now".
+export const getTimelineLayout = (blocks: TimeBlockData[], date: string, nowMinutes?: number): TimelineLayout => {
+  const clipped = blocks
+    .map(block => {
+      const span = getBlockSpan(block);
+      return {
+        block,
+        start: Math.max(0, getMinutesFromDate(date, span.start)),
+        end: Math.min(MINUTES_PER_DAY, getMinutesFromDate(date, span.end)),
+      };
+    })
+    .filter(item => item.end > item.start)
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const items = assignColumns(clipped);
+
+  const gaps: TimelineGap[] = [];
+  let busyUntil = -1;
+  items.forEach(item => {
+    if (busyUntil >= 0 && item.start - busyUntil >= MIN_GAP_MINUTES) {
+      gaps.push({ start: busyUntil, end: item.start });
+    }
+    busyUntil = Math.max(busyUntil, item.end);
+  });
+
+  const starts = items.map(item => item.start);
+  const ends = items.map(item => item.end);
+  if (nowMinutes !== undefined) {
+    starts.push(nowMinutes);
+    ends.push(nowMinutes);
+  }
+
+  return {
+    items,
+    gaps,
+    startHour: Math.floor(Math.min(DEFAULT_START_HOUR * 60, ...starts) / 60),
+    endHour: Math.ceil(Math.max(DEFAULT_END_HOUR * 60, ...ends) / 60),
+  };
+};
+
+export type TimelineDragMode = 'move' | 'resize';
+
+// New start and length for a block dragged by deltaMinutes. Moving keeps the length,
+// resizing keeps the start; both snap to the step and stay within a day.
+export const getDraggedSpan = (
+  start: number,
+  durationMinutes: number,
+  mode: TimelineDragMode,
+  deltaMinutes: number,
+  snapMinutes: number
+): { start: number; durationMinutes: number } => {
+  const snap = (minutes: number) => Math.round(minutes / snapMinutes) * snapMinutes;
+
+  if (mode === 'move') {
+    const newStart = Math.min(Math.max(snap(start + deltaMinutes), 0), MINUTES_PER_DAY - snapMinutes);
+    return { start: newStart, durationMinutes };
+  }
+
+  const newEnd = snap(start + durationMinutes + deltaMinutes);
+  const newDuration = Math.min(Math.max(newEnd - start, snapMinutes), MINUTES_PER_DAY - snapMinutes);
+  return { start, durationMinutes: newDuration };
+};
@@ -0,0 +1,55 @@
+import { TimeBlockData } from '@/components/TimeBlock';
+import { getBlocksInDateRange } from '@/utils/storage';
+import { isRecurringOccurrence } from '@/utils/recurrence';
+import { findOverlappingBlocks } from '@/utils/conflicts';
+import { resetTasks } from '@/utils/tasks';
+import { addDays } from '@/utils/date';
+
+export interface WeekCopyOptions {
+  weeksAhead: number; // 1 copies into the following week
+  weekCount: number; // Number of consecutive weeks to fill from there
+}
+
+export interface WeekCopyCandidate {
+  block: TimeBlockData;
+  source: TimeBlockData;
+  overlaps: TimeBlockData[];
+}
+
+export interface WeekCopyPlan {
+  candidates: WeekCopyCandidate[];
+  skippedRepeating: number; // Repeating blocks continue into later weeks on their own
+}
+
+// A fresh, unstarted copy of the block on another date
+const copyBlockToDate = (block: TimeBlockData, date: string, index: number): TimeBlockData => ({
+  ...block,
+  id: `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+  date,
+  tasks: resetTasks(block.tasks),
+  isActive: false,
+  isCompleted: false,
+  progress: 0,
+});
+
+// Copies of the blocks planned between startDate and endDate, shifted by whole weeks.
+// Each copy lists the existing blocks it would overlap so the caller can skip or keep it.
+export const getWeekCopyPlan = (
+  blocks: TimeBlockData[],
+  startDate: string,
+  endDate: string,
+  options: WeekCopyOptions
+): WeekCopyPlan => {
+  const weekBlocks = getBlocksInDateRange(blocks, startDate, endDate);
+  const sources = weekBlocks.filter(block => !isRecurringOccurrence(block));
+  const candidates: WeekCopyCandidate[] = [];
+
+  for (let week = options.weeksAhead; week < options.weeksAhead + options.weekCount; week++) {
+    sources.forEach(source => {
+      const block = copyBlockToDate(source, addDays(source.date, week * 7), candidates.length);
+      candidates.push({ block, source, overlaps: findOverlappingBlocks(blocks, block) });
+    });
+  }
+
+  return { candidates, skippedRepeating: weekBlocks.length - sources.length };
+};